@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { HtaccessTesterPanel } from '../webview';
+import { HtaccessTesterPanel, isServerConfigFile } from '../webview';
 
 export function runFromEditorCommand(context: vscode.ExtensionContext): vscode.Disposable {
   return vscode.commands.registerCommand('htaccessTester.runFromEditor', () => {
@@ -14,8 +14,8 @@ export function runFromEditorCommand(context: vscode.ExtensionContext): vscode.D
     const document = editor.document;
     const fileName = path.basename(document.fileName);
 
-    if (fileName !== '.htaccess') {
-      vscode.window.showWarningMessage('Active file is not an .htaccess file');
+    if (fileName !== '.htaccess' && !isServerConfigFile(fileName)) {
+      vscode.window.showWarningMessage('Active file is not an .htaccess or .conf file');
       return;
     }
 
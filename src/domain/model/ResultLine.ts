@@ -1,3 +1,5 @@
+import { MapLookup, TraceDetails } from '../../shared/types';
+
 export interface ResultLine {
   line: string;
   message: string | null;
@@ -5,4 +7,10 @@ export interface ResultLine {
   isValid: boolean;
   wasReached: boolean;
   isSupported: boolean;
+  pass: number;
+  warnings: string[];
+  mapLookups: MapLookup[];
+  file?: string;
+  translatedPattern?: string;
+  details?: TraceDetails;
 }
@@ -1,5 +1,13 @@
+import { EngineContext, HttpRequestInput } from '../../shared/types';
+
 export interface TestRequest {
   url: string;
   rules: string;
   serverVariables: Record<string, string>;
+  reinject?: boolean;
+  time?: string; // Local date-time for TIME_* variables; empty means now
+  request?: HttpRequestInput;
+  documentRoot?: string;
+  configDir?: string; // Folder of the tested file; relative RewriteMap paths are resolved against it
+  context?: EngineContext;
 }
@@ -1,8 +1,15 @@
 import { ResultLine } from './ResultLine';
+import { EngineReason, EngineStatus, EvaluationPass, ResponseCookie } from '../../shared/types';
 
 export interface TestResult {
   outputUrl: string;
   outputStatusCode: number | null;
+  status: EngineStatus;
+  message: string | null;
+  reason: EngineReason | null;
   lines: ResultLine[];
+  passes: EvaluationPass[];
+  environment: Record<string, string>;
+  cookies: ResponseCookie[];
   rawResponse: string;
 }
@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { TestRequest, TestResult, ResultLine } from '../model';
 import { validateTestRequest } from '../../util/validation';
-import { evaluate, TraceLine, EngineConfig, DEFAULT_ENGINE_CONFIG } from '../../engine';
+import {
+  evaluate,
+  parse,
+  flattenNodes,
+  TraceLine,
+  EngineConfig,
+  DEFAULT_ENGINE_CONFIG,
+  DEFAULT_DOCUMENT_ROOT,
+  DEFAULT_MODULES
+} from '../../engine';
+import { createWorkspaceFileSystem, findHtaccessFiles, toEnginePath } from '../../util/workspaceFileSystem';
 
 /**
  * Get engine configuration from VS Code settings
@@ -12,10 +24,51 @@ function getEngineConfig(): EngineConfig {
     maxIterations: config.get<number>('engine.maxIterations', DEFAULT_ENGINE_CONFIG.maxIterations),
     maxUrlLength: config.get<number>('engine.maxUrlLength', DEFAULT_ENGINE_CONFIG.maxUrlLength),
     maxRegexSubjectLength: config.get<number>('engine.maxRegexSubjectLength', DEFAULT_ENGINE_CONFIG.maxRegexSubjectLength),
-    maxRuleCount: config.get<number>('engine.maxRuleCount', DEFAULT_ENGINE_CONFIG.maxRuleCount)
+    maxRuleCount: config.get<number>('engine.maxRuleCount', DEFAULT_ENGINE_CONFIG.maxRuleCount),
+    regexTimeoutMs: config.get<number>('engine.regexTimeoutMs', DEFAULT_ENGINE_CONFIG.regexTimeoutMs)
   };
 }
 
+/**
+ * Get the configured document root for tests that are not tied to a workspace folder
+ */
+function getDocumentRoot(): string {
+  const config = vscode.workspace.getConfiguration('htaccessTester');
+  return config.get<string>('documentRoot', DEFAULT_DOCUMENT_ROOT) || DEFAULT_DOCUMENT_ROOT;
+}
+
+/**
+ * Get the modules <IfModule> sections treat as loaded
+ */
+function getLoadedModules(): string[] {
+  const config = vscode.workspace.getConfiguration('htaccessTester');
+  return config.get<string[]>('loadedModules', [...DEFAULT_MODULES]);
+}
+
+/**
+ * Read the files referenced by RewriteMap directives.
+ * Relative paths are resolved against the folder of the tested file, or the first workspace folder.
+ */
+function readMapFiles(rules: string, baseDir: string | undefined): Record<string, string> {
+  const root = baseDir ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const files: Record<string, string> = {};
+
+  for (const node of flattenNodes(parse(rules).nodes)) {
+    if (node.kind !== 'RewriteMap' || !['txt', 'rnd', 'dbm'].includes(node.mapType)) {
+      continue;
+    }
+
+    const filePath = root ? path.resolve(root, node.source) : node.source;
+    try {
+      files[node.source] = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      // Missing files are reported on the RewriteMap trace line
+    }
+  }
+
+  return files;
+}
+
 /**
  * Map engine TraceLine to ResultLine for UI display
  */
@@ -26,7 +79,13 @@ function mapTraceLine(trace: TraceLine): ResultLine {
     isMet: trace.met,
     isValid: trace.valid,
     wasReached: trace.reached,
-    isSupported: trace.valid // If it's valid, it's supported
+    isSupported: trace.valid, // If it's valid, it's supported
+    pass: trace.pass,
+    warnings: trace.warnings,
+    mapLookups: trace.mapLookups,
+    file: trace.file,
+    translatedPattern: trace.translatedPattern,
+    details: trace.details
   };
 }
 
@@ -38,7 +97,9 @@ export class HtaccessTestService {
     const validation = validateTestRequest(
       request.url,
       request.rules,
-      request.serverVariables
+      request.serverVariables,
+      request.request,
+      request.time
     );
 
     if (!validation.valid) {
@@ -53,7 +114,20 @@ export class HtaccessTestService {
       {
         url: request.url,
         rules: request.rules,
-        serverVariables: request.serverVariables
+        serverVariables: request.serverVariables,
+        reinject: request.reinject,
+        request: request.request,
+        // File tests look at the directory the .htaccess was loaded from
+        documentRoot: request.documentRoot ? toEnginePath(request.documentRoot) : getDocumentRoot(),
+        filesystem: request.documentRoot ? createWorkspaceFileSystem(request.documentRoot) : undefined,
+        mapFiles: readMapFiles(request.rules, request.configDir),
+        now: request.time ? new Date(request.time) : undefined,
+        modules: getLoadedModules(),
+        // The tested rules stand in for the root .htaccess; deeper files come from the workspace
+        htaccessFiles: request.documentRoot && (request.context ?? 'directory') === 'directory'
+          ? findHtaccessFiles(request.documentRoot)
+          : undefined,
+        context: request.context
       },
       config
     );
@@ -62,7 +136,13 @@ export class HtaccessTestService {
     return {
       outputUrl: result.finalUrl,
       outputStatusCode: result.statusCode,
+      status: result.status,
+      message: result.message,
+      reason: result.reason,
       lines: result.trace.map(mapTraceLine),
+      passes: result.passes,
+      environment: result.environment,
+      cookies: result.cookies,
       rawResponse: JSON.stringify(result, null, 2)
     };
   }
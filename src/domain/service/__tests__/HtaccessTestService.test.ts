@@ -0,0 +1,58 @@
+/**
+ * Tests for the test service, with the VS Code API replaced by defaults
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const workspace = vi.hoisted(() => ({ root: '' }));
+
+vi.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({ get: <T>(_key: string, defaultValue: T) => defaultValue }),
+    get workspaceFolders() {
+      return [{ uri: { fsPath: workspace.root } }];
+    }
+  }
+}));
+
+import { HtaccessTestService } from '../HtaccessTestService';
+
+describe('HtaccessTestService', () => {
+  beforeAll(() => {
+    workspace.root = fs.mkdtempSync(path.join(os.tmpdir(), 'htaccess-tester-'));
+    fs.mkdirSync(path.join(workspace.root, 'maps'));
+    fs.mkdirSync(path.join(workspace.root, 'sites', 'maps'), { recursive: true });
+    fs.writeFileSync(path.join(workspace.root, 'maps', 'redirects.txt'), 'old /workspace-folder\n');
+    fs.writeFileSync(path.join(workspace.root, 'sites', 'maps', 'redirects.txt'), 'old /config-folder\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspace.root, { recursive: true, force: true });
+  });
+
+  it('should read map files relative to the folder of a tested .conf file', async () => {
+    const result = await new HtaccessTestService().test({
+      url: 'http://example.com/old',
+      rules: 'RewriteEngine On\nRewriteMap redirects txt:maps/redirects.txt\nRewriteRule ^/(.*)$ ${redirects:$1|/missing} [R=301,L]',
+      serverVariables: {},
+      configDir: path.join(workspace.root, 'sites'),
+      context: 'server'
+    });
+
+    expect(result.outputUrl).toBe('http://example.com/config-folder');
+  });
+
+  it('should fall back to the first workspace folder without a tested file', async () => {
+    const result = await new HtaccessTestService().test({
+      url: 'http://example.com/old',
+      rules: 'RewriteEngine On\nRewriteMap redirects txt:maps/redirects.txt\nRewriteRule ^/(.*)$ ${redirects:$1|/missing} [R=301,L]',
+      serverVariables: {},
+      context: 'server'
+    });
+
+    expect(result.outputUrl).toBe('http://example.com/workspace-folder');
+  });
+});
@@ -4,20 +4,16 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { loadFixtures, TestFixture, ExpectedTraceLine } from './fixtures';
+import { loadFixtures, fixtureInput, TestFixture, ExpectedTraceLine } from './fixtures';
 import { evaluate } from '../index';
-import { EngineInput, TraceLine } from '../../shared/types';
+import { EngineInput, TraceLine, DEFAULT_ENGINE_CONFIG } from '../../shared/types';
 
 describe('Engine Conformance Tests', () => {
   const fixtures = loadFixtures();
 
   describe.each(fixtures)('$id: $description', (fixture: TestFixture) => {
     it('should produce correct output URL', () => {
-      const input: EngineInput = {
-        url: fixture.url,
-        rules: fixture.rules,
-        serverVariables: fixture.serverVariables
-      };
+      const input = fixtureInput(fixture);
 
       const result = evaluate(input);
 
@@ -25,23 +21,18 @@ describe('Engine Conformance Tests', () => {
     });
 
     it('should produce correct status code', () => {
-      const input: EngineInput = {
-        url: fixture.url,
-        rules: fixture.rules,
-        serverVariables: fixture.serverVariables
-      };
+      const input = fixtureInput(fixture);
 
       const result = evaluate(input);
 
       expect(result.statusCode).toBe(fixture.expected.statusCode);
+      if (fixture.expected.status !== undefined) {
+        expect(result.status).toBe(fixture.expected.status);
+      }
     });
 
     it('should produce correct trace', () => {
-      const input: EngineInput = {
-        url: fixture.url,
-        rules: fixture.rules,
-        serverVariables: fixture.serverVariables
-      };
+      const input = fixtureInput(fixture);
 
       const result = evaluate(input);
 
@@ -57,11 +48,52 @@ describe('Engine Conformance Tests', () => {
         expect(traceLine.reached).toBe(expected.reached);
         expect(traceLine.met).toBe(expected.met);
         expect(traceLine.valid).toBe(expected.valid);
+        if (expected.pass !== undefined) {
+          expect(traceLine.pass).toBe(expected.pass);
+        }
+        if (expected.message !== undefined) {
+          expect(traceLine.message).toBe(expected.message);
+        }
+        if (expected.warnings !== undefined) {
+          expect(traceLine.warnings).toEqual(expected.warnings);
+        }
+        if (expected.mapLookups !== undefined) {
+          expect(traceLine.mapLookups).toEqual(expected.mapLookups);
+        }
+        if (expected.file !== undefined) {
+          expect(traceLine.file).toBe(expected.file);
+        }
+        if (expected.translatedPattern !== undefined) {
+          expect(traceLine.translatedPattern).toBe(expected.translatedPattern);
+        }
+        if (expected.details !== undefined) {
+          expect(traceLine.details).toEqual(expected.details);
+        }
       });
     });
   });
 });
 
+describe('Environment Conformance Tests', () => {
+  const fixtures = loadFixtures().filter(fixture => fixture.expected.environment !== undefined);
+
+  it.each(fixtures)('$id: should produce correct environment', (fixture: TestFixture) => {
+    const result = evaluate(fixtureInput(fixture));
+
+    expect(result.environment).toEqual(fixture.expected.environment);
+  });
+});
+
+describe('Cookie Conformance Tests', () => {
+  const fixtures = loadFixtures().filter(fixture => fixture.expected.cookies !== undefined);
+
+  it.each(fixtures)('$id: should produce correct Set-Cookie headers', (fixture: TestFixture) => {
+    const result = evaluate(fixtureInput(fixture));
+
+    expect(result.cookies.map(cookie => cookie.header)).toEqual(fixture.expected.cookies);
+  });
+});
+
 describe('Property Tests', () => {
   it('if engine off → output equals input', () => {
     const input: EngineInput = {
@@ -100,4 +132,74 @@ RewriteRule ^other$ /changed [L]`,
 
     expect(result.finalUrl).toBe(input.url);
   });
+
+  it('re-injection without END stops at the iteration limit', () => {
+    const input: EngineInput = {
+      url: 'http://example.com/page',
+      rules: `RewriteEngine On
+RewriteRule ^(.*)$ public/$1 [L]`,
+      serverVariables: { HTTP_HOST: 'example.com' },
+      reinject: true
+    };
+
+    const result = evaluate(input, { ...DEFAULT_ENGINE_CONFIG, maxIterations: 5 });
+
+    expect(result.status).toBe('loop-detected');
+    expect(result.statusCode).toBe(500);
+    expect(result.reason).toEqual({ code: 'max-iterations', limit: 5 });
+    expect(result.passes.length).toBe(5);
+    expect(result.passes[1]).toEqual({
+      pass: 2,
+      reason: 'reinject',
+      url: 'http://example.com/public/page'
+    });
+  });
+
+  it('a URL longer than maxUrlLength is rejected before any rule runs', () => {
+    const url = 'http://example.com/' + 'a'.repeat(300);
+    const result = evaluate({ url, rules: 'RewriteEngine On\nRewriteRule ^ /x [L]', serverVariables: {} },
+      { ...DEFAULT_ENGINE_CONFIG, maxUrlLength: 256 });
+
+    expect(result.status).toBe('limit-exceeded');
+    expect(result.statusCode).toBe(414);
+    expect(result.reason).toEqual({ code: 'url-too-long', limit: 256, actual: url.length });
+    expect(result.trace).toEqual([]);
+    expect(result.finalUrl).toBe(url);
+  });
+
+  it('a rewrite that grows the URL past maxUrlLength stops evaluation', () => {
+    const result = evaluate({
+      url: 'http://example.com/ab',
+      rules: 'RewriteEngine On\nRewriteRule ^(.*)$ $1$1 [N]',
+      serverVariables: {}
+    }, { ...DEFAULT_ENGINE_CONFIG, maxUrlLength: 100 });
+
+    expect(result.status).toBe('limit-exceeded');
+    expect(result.reason?.code).toBe('url-too-long');
+    expect(result.reason?.actual).toBeGreaterThan(100);
+    expect(result.message).toMatch(/^Rewritten URL is \d+ characters long, more than the limit of 100$/);
+  });
+
+  it('rules with more RewriteRule directives than maxRuleCount are not evaluated', () => {
+    const rules = ['RewriteEngine On', ...Array.from({ length: 11 }, (_, i) => `RewriteRule ^${i}$ /x`)].join('\n');
+    const result = evaluate({ url: 'http://example.com/1', rules, serverVariables: {} },
+      { ...DEFAULT_ENGINE_CONFIG, maxRuleCount: 10 });
+
+    expect(result.status).toBe('limit-exceeded');
+    expect(result.message).toBe('Rules contain 11 RewriteRule directives, more than the limit of 10');
+    expect(result.reason).toEqual({ code: 'too-many-rules', limit: 10, actual: 11 });
+  });
+
+  it('a URL without a host is an error', () => {
+    const result = evaluate({ url: 'not a url', rules: 'RewriteEngine On', serverVariables: {} });
+
+    expect(result.status).toBe('error');
+    expect(result.reason).toEqual({ code: 'invalid-url' });
+  });
+
+  it('a completed evaluation has no reason', () => {
+    const result = evaluate({ url: 'http://example.com/', rules: 'RewriteEngine On', serverVariables: {} });
+
+    expect(result.reason).toBeNull();
+  });
 });
@@ -0,0 +1,70 @@
+/**
+ * Tests for [CO=...] cookie parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCookie, formatCookieDate } from '../cookies';
+
+const NOW = new Date(Date.UTC(2024, 0, 15, 12, 0, 0));
+
+describe('Cookies', () => {
+  describe('parseCookie', () => {
+    it('should parse name, value and domain', () => {
+      const cookie = parseCookie('variant:b:.example.com', NOW);
+      expect(cookie).not.toBeNull();
+      expect(cookie!.name).toBe('variant');
+      expect(cookie!.value).toBe('b');
+      expect(cookie!.domain).toBe('.example.com');
+      expect(cookie!.path).toBe('/');
+      expect(cookie!.lifetime).toBeNull();
+      expect(cookie!.header).toBe('variant=b; path=/; domain=.example.com');
+    });
+
+    it('should compute expiry from lifetime in minutes', () => {
+      const cookie = parseCookie('variant:b:.example.com:1440:/shop', NOW);
+      expect(cookie!.lifetime).toBe(1440);
+      expect(cookie!.path).toBe('/shop');
+      expect(cookie!.header).toBe(
+        'variant=b; path=/shop; domain=.example.com; expires=Tue, 16-Jan-2024 12:00:00 GMT'
+      );
+    });
+
+    it('should treat lifetime 0 as a session cookie', () => {
+      const cookie = parseCookie('sid:1:example.com:0:/', NOW);
+      expect(cookie!.lifetime).toBe(0);
+      expect(cookie!.header).not.toContain('expires');
+    });
+
+    it('should parse secure, httponly and samesite', () => {
+      const cookie = parseCookie('sid:1:example.com:0:/:secure:true:Strict', NOW);
+      expect(cookie!.secure).toBe(true);
+      expect(cookie!.httpOnly).toBe(true);
+      expect(cookie!.sameSite).toBe('Strict');
+      expect(cookie!.header).toBe('sid=1; path=/; domain=example.com; secure; HttpOnly; SameSite=Strict');
+    });
+
+    it('should ignore disabled attributes', () => {
+      const cookie = parseCookie('sid:1:example.com:0:/:false:0:0', NOW);
+      expect(cookie!.secure).toBe(false);
+      expect(cookie!.httpOnly).toBe(false);
+      expect(cookie!.sameSite).toBeNull();
+    });
+
+    it('should use ; as separator when the value starts with ;', () => {
+      const cookie = parseCookie(';token;a:b:c;example.com', NOW);
+      expect(cookie!.name).toBe('token');
+      expect(cookie!.value).toBe('a:b:c');
+      expect(cookie!.domain).toBe('example.com');
+    });
+
+    it('should return null when the domain is missing', () => {
+      expect(parseCookie('variant:b', NOW)).toBeNull();
+    });
+  });
+
+  describe('formatCookieDate', () => {
+    it('should format dates like Apache', () => {
+      expect(formatCookieDate(new Date(Date.UTC(1994, 10, 6, 8, 49, 37)))).toBe('Sun, 06-Nov-1994 08:49:37 GMT');
+    });
+  });
+});
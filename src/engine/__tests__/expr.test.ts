@@ -0,0 +1,104 @@
+/**
+ * Tests for ap_expr parsing and evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ExprContext, evaluateExpression, ipMatch, parseExpression } from '../expr';
+
+const context: ExprContext = {
+  variable: name => ({ HTTP_HOST: 'api.example.com', REQUEST_URI: '/v2/users' } as Record<string, string>)[name] ?? '',
+  header: name => (name.toLowerCase() === 'accept' ? 'text/html' : ''),
+  environment: name => (name === 'APP_ENV' ? 'prod' : ''),
+  remoteAddr: '10.20.30.40',
+  fileTest: (operator, path) => operator === '-f' && path === '/var/www/html/index.php',
+  fileSize: () => 0,
+  match: (regex, nocase, subject) => new RegExp(regex, nocase ? 'i' : '').exec(subject)
+};
+
+function run(source: string) {
+  const result = parseExpression(source);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return evaluateExpression(result.expression, context);
+}
+
+describe('ap_expr', () => {
+  describe('parseExpression', () => {
+    it('should report syntax errors', () => {
+      expect(parseExpression("%{HTTP_HOST} == 'a' &&")).toEqual({
+        error: 'Expected a string, variable or function but found end of expression'
+      });
+      expect(parseExpression("'a' 'b'")).toEqual({ error: 'Expected an operator but found a string' });
+      expect(parseExpression("'unterminated")).toHaveProperty('error');
+    });
+
+    it('should reject unknown functions and invalid regexes', () => {
+      expect(parseExpression("md4('x') == ''")).toEqual({ error: "Unknown function 'md4'" });
+      expect(parseExpression("'a' =~ /(/")).toEqual({ error: 'Invalid regular expression /(/' });
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('should compare strings and integers', () => {
+      expect(run("%{HTTP_HOST} == 'api.example.com'").value).toBe(true);
+      expect(run("%{HTTP_HOST} != 'api.example.com'").value).toBe(false);
+      expect(run('10 -gt 9 && 10 > 9').value).toBe(false);
+    });
+
+    it('should apply boolean logic with precedence', () => {
+      expect(run('false || true && !false').value).toBe(true);
+      expect(run('!(true || false)').value).toBe(false);
+    });
+
+    it('should match regexes and expose captures', () => {
+      const result = run('%{REQUEST_URI} =~ m#^/v(\\d+)/(\\w+)# && $2 == "users"');
+      expect(result.value).toBe(true);
+      expect(result.captures).toEqual(['2', 'users']);
+      expect(run('%{HTTP_HOST} !~ /EXAMPLE/i').value).toBe(false);
+    });
+
+    it('should match wildcards', () => {
+      expect(run("%{HTTP_HOST} -strmatch '*.example.com'").value).toBe(true);
+      expect(run("%{HTTP_HOST} -strmatch '*.EXAMPLE.com'").value).toBe(false);
+      expect(run("%{HTTP_HOST} -strcmatch '*.EXAMPLE.com'").value).toBe(true);
+      expect(run("%{REQUEST_URI} -fnmatch '/*'").value).toBe(false);
+    });
+
+    it('should test list membership', () => {
+      expect(run("req('Accept') -in { 'text/html', 'application/json' }").value).toBe(true);
+      expect(run("env('APP_ENV') in { 'dev' }").value).toBe(false);
+    });
+
+    it('should call string functions and concatenate words', () => {
+      expect(run("toupper('a') . tolower('B') == 'Ab'").value).toBe(true);
+      expect(run("base64('hello') == 'aGVsbG8='").value).toBe(true);
+      expect(run("unbase64('aGVsbG8=') == 'hello'").value).toBe(true);
+      expect(run('"%{HTTP_HOST}/x" == "api.example.com/x"').value).toBe(true);
+    });
+
+    it('should evaluate unary operators', () => {
+      expect(run('-n %{HTTP_HOST} && -z %{MISSING}').value).toBe(true);
+      expect(run("-T 'off'").value).toBe(false);
+      expect(run("-R '10.0.0.0/8'").value).toBe(true);
+      expect(run("-f '/var/www/html/index.php'").value).toBe(true);
+    });
+  });
+
+  describe('ipMatch', () => {
+    it('should match IPv4 networks', () => {
+      expect(ipMatch('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(ipMatch('10.1.2.3', '10.1')).toBe(true);
+      expect(ipMatch('10.2.2.3', '10.1')).toBe(false);
+      expect(ipMatch('192.168.1.5', '192.168.0.0/255.255.0.0')).toBe(true);
+      expect(ipMatch('192.168.1.5', '192.168.1.6')).toBe(false);
+    });
+
+    it('should match IPv6 networks', () => {
+      expect(ipMatch('2001:db8::1', '2001:db8::/32')).toBe(true);
+      expect(ipMatch('2001:db9::1', '2001:db8::/32')).toBe(false);
+      expect(ipMatch('::1', '::1')).toBe(true);
+      expect(ipMatch('::1', '10.0.0.0/8')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for the virtual filesystem and file test operators
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createVirtualFileSystem,
+  evaluateFileTest,
+  normalizePath,
+  resolveRequestFilename,
+  statPath
+} from '../filesystem';
+import { evaluate } from '../evaluator';
+import { DEFAULT_ENGINE_CONFIG, FileSystemProvider } from '../../shared/types';
+
+const fs = createVirtualFileSystem([
+  { path: 'index.php', type: 'file', size: 420 },
+  { path: 'bin/run.sh', type: 'file', size: 10, executable: true },
+  { path: 'assets/logo.png', type: 'file', size: 5000 },
+  { path: 'latest', type: 'symlink', target: 'assets/logo.png' },
+  { path: 'broken', type: 'symlink', target: 'missing.txt' },
+  { path: 'loop-a', type: 'symlink', target: 'loop-b' },
+  { path: 'loop-b', type: 'symlink', target: 'loop-a' }
+]);
+
+describe('Virtual Filesystem', () => {
+  describe('normalizePath', () => {
+    it('should collapse slashes and resolve dot segments', () => {
+      expect(normalizePath('/var//www/./html/../html/')).toBe('/var/www/html');
+    });
+  });
+
+  describe('statPath', () => {
+    it('should imply parent directories', () => {
+      expect(statPath(fs, '/var/www/html/assets')?.type).toBe('directory');
+    });
+
+    it('should follow symlinks', () => {
+      expect(statPath(fs, '/var/www/html/latest')?.type).toBe('file');
+    });
+
+    it('should return null for dangling and looping symlinks', () => {
+      expect(statPath(fs, '/var/www/html/broken')).toBeNull();
+      expect(statPath(fs, '/var/www/html/loop-a')).toBeNull();
+    });
+  });
+
+  describe('evaluateFileTest', () => {
+    it('should evaluate -f and -d', () => {
+      expect(evaluateFileTest('-f', '/var/www/html/index.php', fs).met).toBe(true);
+      expect(evaluateFileTest('-f', '/var/www/html/assets', fs).met).toBe(false);
+      expect(evaluateFileTest('-d', '/var/www/html/assets', fs).met).toBe(true);
+    });
+
+    it('should evaluate -l without following the link', () => {
+      expect(evaluateFileTest('-l', '/var/www/html/broken', fs).met).toBe(true);
+      expect(evaluateFileTest('-f', '/var/www/html/broken', fs).met).toBe(false);
+    });
+
+    it('should evaluate -x', () => {
+      expect(evaluateFileTest('-x', '/var/www/html/bin/run.sh', fs).met).toBe(true);
+      expect(evaluateFileTest('-x', '/var/www/html/index.php', fs).met).toBe(false);
+    });
+
+    it('should evaluate -U against URL-paths', () => {
+      expect(evaluateFileTest('-U', '/assets/logo.png?v=2', fs).met).toBe(true);
+      expect(evaluateFileTest('-U', '/nope', fs).met).toBe(false);
+    });
+  });
+
+  describe('resolveRequestFilename', () => {
+    it('should split path info after an existing file', () => {
+      expect(resolveRequestFilename(fs, '/var/www/html', 'index.php/blog/post')).toEqual({
+        filename: '/var/www/html/index.php',
+        pathInfo: '/blog/post'
+      });
+    });
+
+    it('should stop at the first missing segment', () => {
+      expect(resolveRequestFilename(fs, '/var/www/html', 'blog/post')).toEqual({
+        filename: '/var/www/html/blog',
+        pathInfo: '/post'
+      });
+    });
+
+    it('should resolve existing directories', () => {
+      expect(resolveRequestFilename(fs, '/var/www/html', 'assets/')).toEqual({
+        filename: '/var/www/html/assets',
+        pathInfo: ''
+      });
+    });
+  });
+
+  describe('custom providers', () => {
+    it('should answer file tests from a provider passed in EngineInput', () => {
+      const lookups: string[] = [];
+      const provider: FileSystemProvider = {
+        lstat(path) {
+          lookups.push(path);
+          if (path === '/srv/site' || path === '/srv/site/css') {
+            return { type: 'directory', size: 4096, executable: true };
+          }
+          return path === '/srv/site/css/app.css' ? { type: 'file', size: 12, executable: false } : null;
+        }
+      };
+
+      const result = evaluate(
+        {
+          url: 'http://example.com/css/app.css',
+          rules: 'RewriteEngine On\nRewriteCond %{REQUEST_FILENAME} !-f\nRewriteRule ^ index.php [L]',
+          serverVariables: {},
+          documentRoot: '/srv/site',
+          filesystem: provider
+        },
+        DEFAULT_ENGINE_CONFIG
+      );
+
+      expect(result.finalUrl).toBe('http://example.com/css/app.css');
+      expect(lookups).toContain('/srv/site/css/app.css');
+    });
+  });
+});
@@ -5,6 +5,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse } from 'yaml';
+import {
+  EngineContext,
+  EngineInput,
+  EngineStatus,
+  HtaccessFile,
+  HttpRequestInput,
+  MapLookup,
+  TraceDetails,
+  VirtualFileEntry
+} from '../../shared/types';
 
 export interface ExpectedTraceLine {
   line: string;
@@ -12,11 +22,20 @@ export interface ExpectedTraceLine {
   met: boolean;
   valid: boolean;
   message?: string;
+  pass?: number;
+  warnings?: string[];
+  mapLookups?: MapLookup[];
+  file?: string;
+  translatedPattern?: string;
+  details?: TraceDetails;
 }
 
 export interface ExpectedResult {
   outputUrl: string;
   statusCode: number | null;
+  status?: EngineStatus;
+  environment?: Record<string, string>;
+  cookies?: string[];
   trace: ExpectedTraceLine[];
 }
 
@@ -26,6 +45,15 @@ export interface TestFixture {
   url: string;
   rules: string;
   serverVariables: Record<string, string>;
+  reinject?: boolean;
+  request?: HttpRequestInput;
+  documentRoot?: string;
+  filesystem?: VirtualFileEntry[];
+  mapFiles?: Record<string, string>;
+  now?: string; // Local date-time, e.g. 2024-06-02T02:00:00
+  modules?: string[];
+  htaccessFiles?: HtaccessFile[];
+  context?: EngineContext;
   expected: ExpectedResult;
 }
 
@@ -43,6 +71,23 @@ export function loadFixtures(): TestFixture[] {
   });
 }
 
+export function fixtureInput(fixture: TestFixture): EngineInput {
+  return {
+    url: fixture.url,
+    rules: fixture.rules,
+    serverVariables: fixture.serverVariables,
+    reinject: fixture.reinject,
+    request: fixture.request,
+    documentRoot: fixture.documentRoot,
+    filesystem: fixture.filesystem,
+    mapFiles: fixture.mapFiles,
+    now: fixture.now ? new Date(fixture.now) : undefined,
+    modules: fixture.modules,
+    htaccessFiles: fixture.htaccessFiles,
+    context: fixture.context
+  };
+}
+
 export function loadFixture(id: string): TestFixture | undefined {
   const fixtures = loadFixtures();
   return fixtures.find(f => f.id === id);
@@ -0,0 +1,57 @@
+/**
+ * Tests for RewriteMap loading and lookups
+ */
+
+import { describe, it, expect } from 'vitest';
+import { loadRewriteMap, lookupRewriteMap, parseMapFile } from '../maps';
+import { RewriteMapDirective, RewriteMapType } from '../ast';
+
+function mapNode(mapType: RewriteMapType, source: string): RewriteMapDirective {
+  return { kind: 'RewriteMap', sourceLineNo: 1, rawLine: '', name: 'test', mapType, source };
+}
+
+describe('RewriteMap', () => {
+  describe('parseMapFile', () => {
+    it('should parse key/value pairs and skip comments', () => {
+      const entries = parseMapFile('# comment\n  # indented comment\nalpha /a   # trailing\n\nbeta  /b extra\nalpha /duplicate\nlonely\n');
+      expect([...entries]).toEqual([['alpha', '/a'], ['beta', '/b']]);
+    });
+
+    it('should ignore lines starting with whitespace', () => {
+      const entries = parseMapFile('  gamma /indented\n\tdelta /tab\nepsilon /e\n');
+      expect([...entries]).toEqual([['epsilon', '/e']]);
+    });
+
+    it('should keep a # inside a value', () => {
+      const entries = parseMapFile('faq /help#faq\ntop /page#section # comment\n');
+      expect([...entries]).toEqual([['faq', '/help#faq'], ['top', '/page#section']]);
+    });
+  });
+
+  describe('lookupRewriteMap', () => {
+    it('should look up txt and dbm maps', () => {
+      const files = { 'map.txt': 'alpha /a\n' };
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('txt', 'map.txt'), files), 'alpha')).toBe('/a');
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('dbm', 'map.txt'), files), 'alpha')).toBe('/a');
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('txt', 'map.txt'), files), 'gamma')).toBeNull();
+    });
+
+    it('should pick one rnd alternative', () => {
+      const map = loadRewriteMap(mapNode('rnd', 'servers.txt'), { 'servers.txt': 'static www1|www2|www3\n' });
+      expect(lookupRewriteMap(map, 'static', () => 0)).toBe('www1');
+      expect(lookupRewriteMap(map, 'static', () => 0.99)).toBe('www3');
+    });
+
+    it('should apply int functions', () => {
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('int', 'toupper'), {}), 'MixEd')).toBe('MIXED');
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('int', 'escape'), {}), 'a b/c')).toBe('a%20b/c');
+      expect(lookupRewriteMap(loadRewriteMap(mapNode('int', 'unescape'), {}), 'a%20b')).toBe('a b');
+    });
+
+    it('should report unusable maps', () => {
+      expect(loadRewriteMap(mapNode('txt', 'missing.txt'), {}).error).toBe('Map file not found: missing.txt');
+      expect(loadRewriteMap(mapNode('int', 'reverse'), {}).error).toBe('Unknown internal map function: reverse');
+      expect(loadRewriteMap(mapNode('prg', '/bin/map'), {}).error).toBe("Map type 'prg' is not supported offline");
+    });
+  });
+});
@@ -9,9 +9,14 @@ import {
   RewriteBaseDirective,
   RewriteCondDirective,
   RewriteRuleDirective,
+  RewriteMapDirective,
+  RewriteOptionsDirective,
+  RedirectDirective,
+  ContainerNode,
   CommentNode,
   UnknownDirective,
-  ParseErrorNode
+  ParseErrorNode,
+  flattenNodes
 } from '../ast';
 
 describe('Parser', () => {
@@ -126,6 +131,46 @@ describe('Parser', () => {
       expect(node.flags.nocase).toBe(true);
       expect(node.flags.ornext).toBe(true);
     });
+
+    it('should classify regex patterns', () => {
+      const doc = parse('RewriteCond %{HTTP_HOST} !^www\\.');
+      const node = doc.nodes[0] as RewriteCondDirective;
+      expect(node.pattern).toEqual({ type: 'regex', regex: '^www\\.' });
+    });
+
+    it('should classify string comparisons', () => {
+      const doc = parse('RewriteCond %{TIME_HOUR} >=17\nRewriteCond %{HTTPS} =on\nRewriteCond %{HTTP_REFERER} !=""');
+      expect((doc.nodes[0] as RewriteCondDirective).pattern).toEqual({ type: 'string', operator: '>=', value: '17' });
+      expect((doc.nodes[1] as RewriteCondDirective).pattern).toEqual({ type: 'string', operator: '=', value: 'on' });
+      const negated = doc.nodes[2] as RewriteCondDirective;
+      expect(negated.isNegated).toBe(true);
+      expect(negated.pattern).toEqual({ type: 'string', operator: '=', value: '' });
+    });
+
+    it('should classify integer comparisons', () => {
+      const doc = parse('RewriteCond %{SERVER_PORT} -ne443');
+      const node = doc.nodes[0] as RewriteCondDirective;
+      expect(node.pattern).toEqual({ type: 'integer', operator: '-ne', value: '443' });
+    });
+
+    it('should parse expr conditions', () => {
+      const doc = parse('RewriteCond expr "%{HTTP_HOST} -strmatch \'*.example.com\'" [NC]');
+      const node = doc.nodes[0] as RewriteCondDirective;
+      expect(node.kind).toBe('RewriteCond');
+      expect(node.pattern.type).toBe('expr');
+      expect(node.flags.nocase).toBe(true);
+    });
+
+    it('should return ParseError for invalid expr conditions', () => {
+      const doc = parse('RewriteCond expr "%{HTTP_HOST} =="');
+      expect(doc.nodes[0].kind).toBe('ParseError');
+    });
+
+    it('should classify file tests', () => {
+      const doc = parse('RewriteCond %{REQUEST_FILENAME} !-d');
+      const node = doc.nodes[0] as RewriteCondDirective;
+      expect(node.pattern).toEqual({ type: 'file', operator: '-d' });
+    });
   });
 
   describe('RewriteRule', () => {
@@ -185,6 +230,13 @@ describe('Parser', () => {
       expect(node.flags.next).toBe(true);
     });
 
+    it('should parse N=limit flag', () => {
+      const doc = parse('RewriteRule ^foo$ /bar [N=10]');
+      const node = doc.nodes[0] as RewriteRuleDirective;
+      expect(node.flags.next).toBe(true);
+      expect(node.flags.nextLimit).toBe(10);
+    });
+
     it('should parse END flag', () => {
       const doc = parse('RewriteRule ^foo$ /bar [END]');
       const node = doc.nodes[0] as RewriteRuleDirective;
@@ -203,6 +255,31 @@ describe('Parser', () => {
       expect(node.flags.gone).toBe(true);
     });
 
+    it('should parse C flag', () => {
+      const doc = parse('RewriteRule ^foo$ - [C]');
+      const node = doc.nodes[0] as RewriteRuleDirective;
+      expect(node.flags.chain).toBe(true);
+    });
+
+    it('should parse S=n flag', () => {
+      const doc = parse('RewriteRule ^foo$ - [S=3]');
+      const node = doc.nodes[0] as RewriteRuleDirective;
+      expect(node.flags.skip).toBe(3);
+    });
+
+    it('should parse S=0 as skipping no rules', () => {
+      const doc = parse('RewriteRule ^foo$ - [S=0]');
+      const node = doc.nodes[0] as RewriteRuleDirective;
+      expect(node.flags.skip).toBe(0);
+      expect(node.flagDiagnostics).toEqual([]);
+    });
+
+    it('should parse E flag values containing =', () => {
+      const doc = parse('RewriteRule ^foo$ - [E=QS:a=b,E=!OLD]');
+      const node = doc.nodes[0] as RewriteRuleDirective;
+      expect(node.flags.env).toEqual(['QS:a=b', '!OLD']);
+    });
+
     it('should parse multiple flags', () => {
       const doc = parse('RewriteRule ^foo$ /bar [R=301,L,NC,QSA]');
       const node = doc.nodes[0] as RewriteRuleDirective;
@@ -219,6 +296,189 @@ describe('Parser', () => {
     });
   });
 
+  describe('flag diagnostics', () => {
+    it('should accept known flags without diagnostics', () => {
+      const rule = parse('RewriteRule ^foo$ /bar [R=permanent,L,NC,QSA,B,DPI]').nodes[0] as RewriteRuleDirective;
+      const cond = parse('RewriteCond %{HTTP_HOST} ^a$ [nocase,OR,NV]').nodes[0] as RewriteCondDirective;
+      expect(rule.flags.redirect).toBe(301);
+      expect(rule.flagDiagnostics).toEqual([]);
+      expect(cond.flagDiagnostics).toEqual([]);
+    });
+
+    it('should report unknown flags', () => {
+      const node = parse('RewriteRule ^foo$ /bar [R=301,L,QAS]').nodes[0] as RewriteRuleDirective;
+      expect(node.flags.last).toBe(true);
+      expect(node.flagDiagnostics).toEqual([{ kind: 'unknown', flag: 'QAS', message: 'Unknown flag: [QAS]' }]);
+    });
+
+    it('should report rule flags on a condition', () => {
+      const node = parse('RewriteCond %{HTTP_HOST} ^a$ [NC,OR,L]').nodes[0] as RewriteCondDirective;
+      expect(node.flags.ornext).toBe(true);
+      expect(node.flagDiagnostics).toEqual([
+        { kind: 'not-for-cond', flag: 'L', message: 'Flag [L] is not valid for RewriteCond' }
+      ]);
+    });
+
+    it('should report redirect codes outside 300-399', () => {
+      const node = parse('RewriteRule ^foo$ /bar [R=200]').nodes[0] as RewriteRuleDirective;
+      expect(node.flagDiagnostics[0].kind).toBe('invalid-redirect');
+      expect(node.flagDiagnostics[0].message).toBe('Redirect code 200 is outside 300-399');
+    });
+
+    it('should report conflicting flags', () => {
+      const node = parse('RewriteRule ^foo$ http://backend/ [R,P]').nodes[0] as RewriteRuleDirective;
+      expect(node.flagDiagnostics).toEqual([
+        { kind: 'conflict', flag: 'P', message: 'Flags [R] and [P] cannot be combined' }
+      ]);
+    });
+
+    it('should report malformed flags', () => {
+      const node = parse('RewriteRule ^foo$ - [E,S=x,L=1]').nodes[0] as RewriteRuleDirective;
+      expect(node.flagDiagnostics.map(diagnostic => diagnostic.kind)).toEqual(['malformed', 'malformed', 'malformed']);
+      expect(node.flags.last).toBe(false);
+    });
+
+    it('should report missing brackets', () => {
+      const node = parse('RewriteRule ^foo$ /bar L').nodes[0] as RewriteRuleDirective;
+      expect(node.flags.last).toBe(true);
+      expect(node.flagDiagnostics[0].message).toBe('Flags must be enclosed in brackets: L');
+    });
+  });
+
+  describe('RewriteMap', () => {
+    it('should parse map name, type and source', () => {
+      const doc = parse('RewriteMap redirects txt:/etc/apache2/redirects.txt');
+      const node = doc.nodes[0] as RewriteMapDirective;
+      expect(node.kind).toBe('RewriteMap');
+      expect(node.name).toBe('redirects');
+      expect(node.mapType).toBe('txt');
+      expect(node.source).toBe('/etc/apache2/redirects.txt');
+    });
+
+    it('should parse dbm maps with a dbm type', () => {
+      const doc = parse('RewriteMap hosts dbm=sdbm:conf/hosts.map');
+      const node = doc.nodes[0] as RewriteMapDirective;
+      expect(node.mapType).toBe('dbm');
+      expect(node.source).toBe('conf/hosts.map');
+    });
+
+    it('should return ParseError for unknown map types', () => {
+      const doc = parse('RewriteMap hosts ldap:hosts');
+      expect(doc.nodes[0].kind).toBe('ParseError');
+      expect((doc.nodes[0] as ParseErrorNode).message).toBe('Invalid RewriteMap type: ldap');
+    });
+  });
+
+  describe('RewriteOptions', () => {
+    it('should parse options case-insensitively', () => {
+      const node = parse('RewriteOptions inherit IgnoreInherit').nodes[0] as RewriteOptionsDirective;
+      expect(node.kind).toBe('RewriteOptions');
+      expect(node.options).toEqual(['Inherit', 'IgnoreInherit']);
+    });
+
+    it('should return ParseError for unknown options', () => {
+      const doc = parse('RewriteOptions InheritSideways');
+      expect((doc.nodes[0] as ParseErrorNode).message).toBe('Invalid RewriteOptions option: InheritSideways');
+    });
+  });
+
+  describe('mod_alias redirects', () => {
+    it('should parse Redirect with a status keyword', () => {
+      const node = parse('Redirect permanent /old https://example.com/new').nodes[0] as RedirectDirective;
+      expect(node.kind).toBe('Redirect');
+      expect(node.regex).toBe(false);
+      expect(node.status).toBe(301);
+      expect(node.path).toBe('/old');
+      expect(node.target).toBe('https://example.com/new');
+    });
+
+    it('should default to 302 and accept numeric statuses', () => {
+      expect((parse('Redirect /a /b').nodes[0] as RedirectDirective).status).toBe(302);
+      expect((parse('Redirect 303 /a /b').nodes[0] as RedirectDirective).status).toBe(303);
+      expect((parse('RedirectPermanent /a /b').nodes[0] as RedirectDirective).status).toBe(301);
+      expect((parse('RedirectTemp /a /b').nodes[0] as RedirectDirective).status).toBe(302);
+    });
+
+    it('should parse RedirectMatch as a regex redirect', () => {
+      const node = parse('RedirectMatch 301 ^/blog/(\\d+)$ /posts/$1').nodes[0] as RedirectDirective;
+      expect(node.regex).toBe(true);
+      expect(node.path).toBe('^/blog/(\\d+)$');
+      expect(node.target).toBe('/posts/$1');
+    });
+
+    it('should parse gone without a target', () => {
+      const node = parse('Redirect gone /removed').nodes[0] as RedirectDirective;
+      expect(node.status).toBe(410);
+      expect(node.target).toBeNull();
+    });
+
+    it('should return ParseError for invalid redirects', () => {
+      const messages = ['Redirect 301 /old', 'Redirect gone /old /new', 'Redirect /old new', 'RedirectMatch ^/(a /$1']
+        .map(line => (parse(line).nodes[0] as ParseErrorNode).message);
+      expect(messages).toEqual([
+        'Redirect with status 301 requires a target URL',
+        'Redirect URL not valid for status 410',
+        'Redirect to non-URL: new',
+        'Invalid regex pattern: ^/(a'
+      ]);
+    });
+  });
+
+  describe('containers', () => {
+    it('should nest directives inside a container', () => {
+      const doc = parse('<IfModule mod_rewrite.c>\n  RewriteEngine On\n</IfModule>\nRewriteRule ^a$ /b');
+      expect(doc.nodes).toHaveLength(2);
+      const node = doc.nodes[0] as ContainerNode;
+      expect(node.kind).toBe('Container');
+      expect(node.test).toEqual({ type: 'module', module: 'mod_rewrite.c', negated: false });
+      expect(node.children.map(child => child.kind)).toEqual(['RewriteEngine']);
+      expect(node.end?.sourceLineNo).toBe(3);
+      expect(doc.nodes[1].kind).toBe('RewriteRule');
+    });
+
+    it('should parse negated IfModule', () => {
+      const node = parse('<IfModule !mod_headers.c>\n</IfModule>').nodes[0] as ContainerNode;
+      expect(node.test).toEqual({ type: 'module', module: 'mod_headers.c', negated: true });
+    });
+
+    it('should parse If expressions and report invalid ones', () => {
+      const valid = parse('<If "%{HTTPS} == \'on\'">\n</If>').nodes[0] as ContainerNode;
+      expect(valid.test.type).toBe('expr');
+      const invalid = parse('<ElseIf "%{HTTPS} ==">\n</ElseIf>').nodes[0] as ContainerNode;
+      expect(invalid.test.type).toBe('invalid');
+    });
+
+    it('should parse Files and FilesMatch patterns', () => {
+      const files = parse('<Files "*.php">\n</Files>').nodes[0] as ContainerNode;
+      expect(files.test).toEqual({ type: 'files', pattern: '*.php', regex: false });
+      const filesMatch = parse('<FilesMatch "\\.(gif|png)$">\n</FilesMatch>').nodes[0] as ContainerNode;
+      expect(filesMatch.test).toEqual({ type: 'files', pattern: '\\.(gif|png)$', regex: true });
+    });
+
+    it('should parse VirtualHost addresses and ServerName directives', () => {
+      const node = parse('<VirtualHost *:80 [::1]:8080>\n  ServerAlias a.test b.test\n</VirtualHost>').nodes[0] as ContainerNode;
+      expect(node.test).toEqual({ type: 'vhost', addresses: ['*:80', '[::1]:8080'] });
+      expect(node.children[0]).toMatchObject({ kind: 'ServerName', directive: 'ServerAlias', names: ['a.test', 'b.test'] });
+    });
+
+    it('should leave unclosed containers without an end', () => {
+      const node = parse('<IfModule mod_rewrite.c>\nRewriteEngine On').nodes[0] as ContainerNode;
+      expect(node.end).toBeNull();
+      expect(node.children).toHaveLength(1);
+    });
+
+    it('should return ParseError for unexpected closing tags', () => {
+      const doc = parse('</IfModule>');
+      expect(doc.nodes[0].kind).toBe('ParseError');
+      expect((doc.nodes[0] as ParseErrorNode).message).toBe('Unexpected </IfModule> without opening tag');
+    });
+
+    it('should flatten nested containers in source order', () => {
+      const doc = parse('<IfModule rewrite_module>\n<If "%{HTTPS} == \'on\'">\nRewriteMap m int:tolower\n</If>\n</IfModule>');
+      expect(flattenNodes(doc.nodes).map(node => node.kind)).toEqual(['Container', 'Container', 'RewriteMap']);
+    });
+  });
+
   describe('unknown directives', () => {
     it('should parse unknown directives', () => {
       const doc = parse('ErrorDocument 404 /404.html');
@@ -229,6 +489,19 @@ describe('Parser', () => {
     });
   });
 
+  describe('line continuations', () => {
+    it('should parse a continued directive as one node on its first line', () => {
+      const doc = parse('RewriteEngine On\nRewriteRule ^old$ \\\n  /new [R=301,L]\nRewriteRule ^a$ /b');
+      expect(doc.nodes).toHaveLength(3);
+      const rule = doc.nodes[1] as RewriteRuleDirective;
+      expect(rule.sourceLineNo).toBe(2);
+      expect(rule.rawLine).toBe('RewriteRule ^old$ \\\n  /new [R=301,L]');
+      expect(rule.substitution).toBe('/new');
+      expect(rule.flags.redirect).toBe(301);
+      expect(doc.nodes[2].sourceLineNo).toBe(4);
+    });
+  });
+
   describe('preserves source info', () => {
     it('should preserve raw line text', () => {
       const line = '  RewriteEngine On  ';
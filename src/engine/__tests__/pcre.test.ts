@@ -0,0 +1,109 @@
+/**
+ * Tests for the PCRE to JavaScript regex translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { translatePcre } from '../pcre';
+
+function source(pattern: string): string {
+  const translation = translatePcre(pattern);
+  expect(translation.error).toBeNull();
+  return translation.source;
+}
+
+describe('translatePcre', () => {
+  it('should leave JavaScript-compatible patterns alone', () => {
+    // Only $ changes, so it also matches before a final newline; that is not reported as a rewrite
+    expect(translatePcre('^([a-z]+)/(\\d+)\\1$')).toEqual({
+      source: '^([a-z]+)/(\\d+)\\1(?=\\n?$)',
+      flags: '',
+      rewritten: false,
+      groups: null,
+      error: null
+    });
+    expect(translatePcre('\\.php$').rewritten).toBe(false);
+    expect(translatePcre('^\\Ablog$').rewritten).toBe(true);
+    expect(translatePcre('(?i)^blog$').rewritten).toBe(true);
+  });
+
+  it('should translate anchors', () => {
+    expect(source('\\Ablog/\\z')).toBe('^blog/$');
+    expect(source('index\\.php\\Z')).toBe('index\\.php(?=\\n?$)');
+  });
+
+  it('should let $ match before a final newline unless multiline', () => {
+    expect(new RegExp(source('^foo$')).test('foo\n')).toBe(true);
+    expect(new RegExp(source('^foo$')).test('foo\nbar')).toBe(false);
+    expect(new RegExp(source('^foo\\z')).test('foo\n')).toBe(false);
+    expect(source('[$]')).toBe('[$]');
+    expect(translatePcre('(?m)^foo$')).toMatchObject({ source: '^foo$', flags: 'm' });
+  });
+
+  it('should translate POSIX classes', () => {
+    expect(source('^[[:alpha:]_]+[[:digit:]]$')).toBe('^[a-zA-Z_]+[0-9](?=\\n?$)');
+    expect(source('[[:^space:]]')).toBe('[\\S]');
+    expect(translatePcre('[[:^alpha:]]').error).toBe('Unsupported PCRE feature: negated POSIX class [:^alpha:] at position 1');
+    expect(translatePcre('[[:letter:]]').error).toBe('Unknown POSIX class [:letter:] at position 1');
+  });
+
+  it('should keep a leading ] in a class literal', () => {
+    expect(new RegExp(source('^[]a]+$')).test(']a]')).toBe(true);
+  });
+
+  it('should turn leading inline modifiers into flags', () => {
+    expect(translatePcre('(?i)^blog$')).toMatchObject({ source: '^blog(?=\\n?$)', flags: 'i' });
+    expect(translatePcre('^(?is)a.b')).toMatchObject({ source: '^a.b', flags: 'is' });
+    expect(translatePcre('^blog(?i)$').error).toBe(
+      'Unsupported PCRE feature: inline modifier not at the start of the pattern (?i) at position 5'
+    );
+  });
+
+  it('should strip whitespace and comments in extended mode', () => {
+    expect(source('(?x) ^ (\\d+)  # the id\n / $')).toBe('^(\\d+)/(?=\\n?$)');
+  });
+
+  it('should emulate atomic groups and possessive quantifiers', () => {
+    const atomic = translatePcre('^(?>a+)b');
+    expect(atomic.source).toBe('^(?:(?=(a+))\\1)b');
+    expect(new RegExp(atomic.source).test('aaab')).toBe(true);
+
+    // a++ takes every a, so the final a can never match
+    const possessive = translatePcre('^(x)a++a$');
+    expect(new RegExp(possessive.source).test('xaaa')).toBe(false);
+    expect(new RegExp(source('^(x)a+a$')).test('xaaa')).toBe(true);
+  });
+
+  it('should map PCRE group numbers past helper groups', () => {
+    const translation = translatePcre('^(?>(a+))(b)\\2$');
+    expect(translation.source).toBe('^(?:(?=((a+)))\\1)(b)\\3(?=\\n?$)');
+    expect(translation.groups).toEqual([0, 2, 3]);
+    const match = new RegExp(translation.source).exec('aabb')!;
+    expect(translation.groups!.map(index => match[index])).toEqual(['aabb', 'aa', 'b']);
+  });
+
+  it('should translate named groups and backreferences', () => {
+    expect(source('(?P<slug>[a-z]+)/(?P=slug)')).toBe('(?<slug>[a-z]+)/\\1');
+    expect(source("(?'y'\\d{4})-\\k{y}")).toBe('(?<y>\\d{4})-\\1');
+    expect(source('(a)(b)\\g{-1}\\g1')).toBe('(a)(b)\\2\\1');
+    expect(translatePcre('(a)\\2').error).toBe('Reference to non-existent group 2');
+  });
+
+  it('should translate escapes JavaScript lacks or reads differently', () => {
+    expect(source('\\Qa.b*\\E+')).toBe('a\\.b\\*+');
+    expect(source('\\x{e9}\\e')).toBe('\\u00E9\\x1B');
+    expect(new RegExp(source('^a\\hb\\Rc$')).test('a\tb\r\nc')).toBe(true);
+    expect(source('(?#comment)^a$')).toBe('^a(?=\\n?$)');
+  });
+
+  it('should report constructs that cannot be translated', () => {
+    expect(translatePcre('^a(?R)?b$').error).toBe('Unsupported PCRE feature: recursion (?R) at position 2');
+    expect(translatePcre('(a)(?1)').error).toBe('Unsupported PCRE feature: subroutine call (?1) at position 3');
+    expect(translatePcre('(?|(a)|(b))').error).toBe('Unsupported PCRE feature: branch reset group (?| at position 0');
+    expect(translatePcre('(?(1)a|b)').error).toBe('Unsupported PCRE feature: conditional group (?( at position 0');
+    expect(translatePcre('a(*SKIP)(*FAIL)').error).toBe(
+      'Unsupported PCRE feature: backtracking control verb (*SKIP) at position 1'
+    );
+    expect(translatePcre('foo\\Kbar').error).toBe('Unsupported PCRE feature: match start reset \\K at position 3');
+    expect(translatePcre('\\p{Lu}').error).toBe('Unsupported PCRE feature: Unicode property \\p{Lu} at position 0');
+  });
+});
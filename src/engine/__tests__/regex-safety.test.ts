@@ -7,8 +7,11 @@ import {
   checkPatternSafety,
   checkSubjectSafety,
   createSafeRegex,
-  checkPcreCompatibility
+  checkPcreCompatibility,
+  compilePattern,
+  matchWithTimeout
 } from '../regex-safety';
+import { DEFAULT_ENGINE_CONFIG } from '../../shared/types';
 
 describe('Regex Safety', () => {
   describe('checkPatternSafety', () => {
@@ -91,4 +94,60 @@ describe('Regex Safety', () => {
       expect(result.safe).toBe(false);
     });
   });
+
+  describe('compilePattern', () => {
+    it('should compile valid patterns', () => {
+      const compiled = compilePattern('^foo$', true);
+      expect(compiled.regex!.test('FOO')).toBe(true);
+      expect(compiled.error).toBeNull();
+      expect(compiled.risk).toBeNull();
+    });
+
+    it('should let $ match before a final newline without reporting a translation', () => {
+      const compiled = compilePattern('^(.*)\\.php$', false);
+      expect(compiled.regex!.test('index.php\n')).toBe(true);
+      expect(compiled.translated).toBeNull();
+    });
+
+    it('should compile risky patterns and report the risk', () => {
+      const compiled = compilePattern('^(a+)+$', false);
+      expect(compiled.regex).not.toBeNull();
+      expect(compiled.risk).toContain('nested quantifiers');
+    });
+
+    it('should report invalid and unsupported patterns', () => {
+      expect(compilePattern('[invalid', false).error).toBe('Invalid regex pattern');
+      expect(compilePattern('^a(?R)?b$', false).error).toBe('Unsupported PCRE feature: recursion (?R) at position 2');
+      expect(compilePattern('a'.repeat(3000), false).error).toContain('too long');
+    });
+  });
+
+  describe('matchWithTimeout', () => {
+    it('should return matches with captures', () => {
+      const { match, error } = matchWithTimeout(/^([a-z]+)\/(\d+)?$/, 'blog/');
+      expect(error).toBeNull();
+      expect(match![0]).toBe('blog/');
+      expect(match![1]).toBe('blog');
+      expect(match![2]).toBeUndefined();
+      expect(match!.index).toBe(0);
+    });
+
+    it('should return null when the pattern does not match', () => {
+      expect(matchWithTimeout(/^foo$/, 'bar')).toEqual({ match: null, error: null });
+    });
+
+    it('should reject subjects that are too long', () => {
+      const { match, error } = matchWithTimeout(/a/, 'a'.repeat(3000));
+      expect(match).toBeNull();
+      expect(error).toContain('too long');
+    });
+
+    it('should stop runaway matches and keep working afterwards', () => {
+      const config = { ...DEFAULT_ENGINE_CONFIG, regexTimeoutMs: 100 };
+      const { match, error } = matchWithTimeout(/^(a+)+$/, 'a'.repeat(40) + 'b', config);
+      expect(match).toBeNull();
+      expect(error).toBe('Regex match timed out after 100ms');
+      expect(matchWithTimeout(/^a+$/, 'aaa', config).match![0]).toBe('aaa');
+    });
+  });
 });
@@ -0,0 +1,43 @@
+/**
+ * Tests for Apache config tokenization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readLogicalLines, splitRewriteArgs, splitWords } from '../tokenizer';
+
+describe('Tokenizer', () => {
+  describe('readLogicalLines', () => {
+    it('should join backslash continuations and keep the first line number', () => {
+      const lines = readLogicalLines('RewriteCond %{HTTP_HOST} \\\n    ^www\\. [NC]\nRewriteRule ^ -');
+      expect(lines).toEqual([
+        { lineNo: 1, rawLine: 'RewriteCond %{HTTP_HOST} \\\n    ^www\\. [NC]', text: 'RewriteCond %{HTTP_HOST}     ^www\\. [NC]' },
+        { lineNo: 3, rawLine: 'RewriteRule ^ -', text: 'RewriteRule ^ -' }
+      ]);
+    });
+
+    it('should keep a trailing backslash on the last line', () => {
+      expect(readLogicalLines('a\\')).toEqual([{ lineNo: 1, rawLine: 'a\\', text: 'a\\' }]);
+    });
+  });
+
+  describe('splitWords', () => {
+    it('should split like ap_getword_conf', () => {
+      expect(splitWords('  one "two words" \'it\\\'s\' "a \\"b\\" \\\\c" mid"quote  '))
+        .toEqual(['one', 'two words', "it's", 'a "b" \\c', 'mid"quote']);
+    });
+  });
+
+  describe('splitRewriteArgs', () => {
+    it('should keep escaped whitespace in a word', () => {
+      expect(splitRewriteArgs('^my\\ page$ /my\\ page [L]')).toEqual(['^my\\ page$', '/my\\ page', '[L]']);
+    });
+
+    it('should only end quoted words at the same quote and not process escapes', () => {
+      expect(splitRewriteArgs('"^it\'s here$" \'/say "hi"\' ^a\\\\b$')).toEqual(["^it's here$", '/say "hi"', '^a\\\\b$']);
+    });
+
+    it('should treat quotes inside unquoted words as ordinary characters', () => {
+      expect(splitRewriteArgs('^don\'t$ /x')).toEqual(["^don't$", '/x']);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for virtual host selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeVirtualHost, selectVirtualHost } from '../vhosts';
+import { parse } from '../parser';
+
+const CONFIG = `<VirtualHost *:80>
+  ServerName default.example.com
+</VirtualHost>
+<VirtualHost *:80>
+  ServerName https://www.example.com:443
+  ServerAlias example.com *.example.org
+</VirtualHost>
+<VirtualHost 10.0.0.1:8080>
+  ServerName admin.example.com
+</VirtualHost>`;
+
+describe('selectVirtualHost', () => {
+  const nodes = parse(CONFIG).nodes;
+  const select = (host: string, port: string) => {
+    const vhost = selectVirtualHost(nodes, host, port);
+    return vhost ? describeVirtualHost(vhost) : null;
+  };
+
+  it('should match ServerName without its scheme and port', () => {
+    expect(select('WWW.example.com', '80')).toBe('<VirtualHost *:80> www.example.com');
+  });
+
+  it('should match ServerAlias names and wildcards', () => {
+    expect(select('example.com', '80')).toBe('<VirtualHost *:80> www.example.com');
+    expect(select('shop.example.org', '80')).toBe('<VirtualHost *:80> www.example.com');
+  });
+
+  it('should fall back to the first virtual host on the port', () => {
+    expect(select('unknown.test', '80')).toBe('<VirtualHost *:80> default.example.com');
+    expect(select('unknown.test', '8080')).toBe('<VirtualHost 10.0.0.1:8080> admin.example.com');
+  });
+
+  it('should return null when no virtual host listens on the port', () => {
+    expect(select('www.example.com', '443')).toBeNull();
+  });
+});
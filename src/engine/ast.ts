@@ -35,14 +35,83 @@ export interface CondFlags {
   ornext: boolean; // [OR]
 }
 
+/**
+ * What is wrong with a flag
+ */
+export type FlagDiagnosticKind =
+  | 'unknown'          // Not a flag mod_rewrite knows
+  | 'malformed'        // Bad delimiters, or a missing or unexpected value
+  | 'not-for-cond'     // A RewriteRule flag used on a RewriteCond
+  | 'invalid-redirect' // [R=code] outside 300-399
+  | 'conflict';        // Flags that cannot be combined, like [R] with [P]
+
+/**
+ * A problem found while parsing a flag list
+ */
+export interface FlagDiagnostic {
+  kind: FlagDiagnosticKind;
+  flag: string; // The flag as written, e.g. "QAS" or "R=200"
+  message: string;
+}
+
+/**
+ * File test operators (-f, -d, ...)
+ */
+export type FileTestOperator = '-d' | '-f' | '-F' | '-s' | '-l' | '-L' | '-h' | '-x' | '-U';
+
+/**
+ * Lexicographic string comparison operators
+ */
+export type StringCompareOperator = '<' | '>' | '=' | '<=' | '>=';
+
+/**
+ * Integer comparison operators
+ */
+export type IntegerCompareOperator = '-eq' | '-ne' | '-lt' | '-le' | '-gt' | '-ge';
+
+/**
+ * A word in an ap_expr expression: something that evaluates to a string
+ */
+export type ExprWord =
+  | { kind: 'text'; text: string }                      // Literal text or digits
+  | { kind: 'variable'; name: string }                  // %{NAME}
+  | { kind: 'backref'; index: number }                  // $0-$9 from the last =~ match
+  | { kind: 'function'; name: string; arg: ExprWord }   // tolower(...) or %{func:arg}
+  | { kind: 'concat'; parts: ExprWord[] };              // Quoted string with interpolation, or a . b
+
+/**
+ * A parsed ap_expr expression (RewriteCond expr "...")
+ */
+export type ExprNode =
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'not'; operand: ExprNode }
+  | { kind: 'and'; left: ExprNode; right: ExprNode }
+  | { kind: 'or'; left: ExprNode; right: ExprNode }
+  | { kind: 'unary'; operator: string; operand: ExprWord }           // -n, -z, -T, -R, -f, ...
+  | { kind: 'binary'; operator: string; left: ExprWord; right: ExprWord } // ==, -eq, -ipmatch, ...
+  | { kind: 'match'; negated: boolean; subject: ExprWord; regex: string; nocase: boolean } // =~ and !~
+  | { kind: 'in'; subject: ExprWord; list: ExprWord[] };
+
+/**
+ * What a CondPattern does, classified by the parser
+ */
+export type CondPattern =
+  | { type: 'regex'; regex: string }
+  | { type: 'string'; operator: StringCompareOperator; value: string }
+  | { type: 'integer'; operator: IntegerCompareOperator; value: string }
+  | { type: 'file'; operator: FileTestOperator }
+  | { type: 'expr'; expression: ExprNode };
+
 /**
  * RewriteCond directive
  */
 export interface RewriteCondDirective extends BaseNode {
   kind: 'RewriteCond';
   testString: string;
-  condPattern: string;
+  condPattern: string;  // Raw pattern, without the leading '!'
+  pattern: CondPattern;
   flags: CondFlags;
+  flagDiagnostics: FlagDiagnostic[];
   isNegated: boolean;
 }
 
@@ -57,6 +126,7 @@ export interface RuleFlags {
   qsdiscard: boolean;     // [QSD]
   noescape: boolean;      // [NE]
   next: boolean;          // [N]
+  nextLimit: number | null; // [N=limit]
   end: boolean;           // [END]
   forbidden: boolean;     // [F]
   gone: boolean;          // [G]
@@ -77,6 +147,91 @@ export interface RewriteRuleDirective extends BaseNode {
   pattern: string;
   substitution: string;
   flags: RuleFlags;
+  flagDiagnostics: FlagDiagnostic[];
+}
+
+/**
+ * RewriteMap map types
+ */
+export type RewriteMapType = 'txt' | 'rnd' | 'int' | 'dbm' | 'prg' | 'dbd' | 'fastdbd';
+
+/**
+ * RewriteMap directive
+ */
+export interface RewriteMapDirective extends BaseNode {
+  kind: 'RewriteMap';
+  name: string;
+  mapType: RewriteMapType;
+  source: string; // File path, int function name, program or SQL query
+}
+
+/**
+ * RewriteOptions options
+ */
+export type RewriteOption =
+  | 'Inherit'
+  | 'InheritBefore'
+  | 'InheritDown'
+  | 'InheritDownBefore'
+  | 'IgnoreInherit'
+  | 'AllowNoSlash'
+  | 'AllowAnyURI'
+  | 'MergeBase'
+  | 'IgnoreContextInfo'
+  | 'LegacyPrefixDocRoot'
+  | 'LongURLOptimization';
+
+/**
+ * RewriteOptions directive
+ */
+export interface RewriteOptionsDirective extends BaseNode {
+  kind: 'RewriteOptions';
+  options: RewriteOption[];
+}
+
+/**
+ * mod_alias Redirect, RedirectMatch, RedirectPermanent or RedirectTemp directive
+ */
+export interface RedirectDirective extends BaseNode {
+  kind: 'Redirect';
+  directive: string;     // As written, e.g. RedirectMatch
+  regex: boolean;        // RedirectMatch: `path` is a regex matched against the URL-path
+  status: number;
+  path: string;          // URL-path prefix, or regex
+  target: string | null; // Absolute URL or URL-path; null for non-redirect statuses such as gone
+}
+
+/**
+ * ServerName or ServerAlias directive
+ */
+export interface ServerNameDirective extends BaseNode {
+  kind: 'ServerName';
+  directive: string; // As written, e.g. ServerAlias
+  names: string[];
+}
+
+/**
+ * When the contents of a container apply
+ */
+export type ContainerTest =
+  | { type: 'module'; module: string; negated: boolean }  // <IfModule [!]module>
+  | { type: 'expr'; expression: ExprNode }                // <If "expr">, <ElseIf "expr">
+  | { type: 'else' }                                      // <Else>
+  | { type: 'files'; pattern: string; regex: boolean }    // <Files>, <Files ~>, <FilesMatch>
+  | { type: 'vhost'; addresses: string[] }                // <VirtualHost addr[:port] ...>
+  | { type: 'unsupported' }                               // Any other container
+  | { type: 'invalid'; message: string };                 // Container whose arguments did not parse
+
+/**
+ * A container section such as <IfModule mod_rewrite.c> ... </IfModule>
+ */
+export interface ContainerNode extends BaseNode {
+  kind: 'Container';
+  name: string;   // As written, e.g. IfModule
+  args: string;
+  test: ContainerTest;
+  children: AstNode[];
+  end: { sourceLineNo: number; rawLine: string } | null; // Closing tag, null if missing
 }
 
 /**
@@ -119,18 +274,30 @@ export type AstNode =
   | RewriteBaseDirective
   | RewriteCondDirective
   | RewriteRuleDirective
+  | RewriteMapDirective
+  | RewriteOptionsDirective
+  | RedirectDirective
+  | ServerNameDirective
+  | ContainerNode
   | BlankLineNode
   | CommentNode
   | UnknownDirective
   | ParseErrorNode;
 
 /**
- * Parsed htaccess document
+ * Parsed htaccess document; container contents are nested in their Container node
  */
 export interface HtaccessDocument {
   nodes: AstNode[];
 }
 
+/**
+ * List nodes depth-first, including the contents of containers
+ */
+export function flattenNodes(nodes: AstNode[]): AstNode[] {
+  return nodes.flatMap(node => (node.kind === 'Container' ? [node, ...flattenNodes(node.children)] : [node]));
+}
+
 /**
  * Default CondFlags
  */
@@ -153,6 +320,7 @@ export function defaultRuleFlags(): RuleFlags {
     qsdiscard: false,
     noescape: false,
     next: false,
+    nextLimit: null,
     end: false,
     forbidden: false,
     gone: false,
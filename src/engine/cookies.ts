@@ -0,0 +1,94 @@
+/**
+ * Cookie handling for the RewriteRule [CO=...] flag.
+ * Builds Set-Cookie headers the way mod_rewrite does.
+ */
+
+import { ResponseCookie } from '../shared/types';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Check a boolean-ish cookie attribute value (true, 1 or the attribute name itself)
+ */
+function isEnabled(value: string | undefined, keyword: string): boolean {
+  if (value === undefined) return false;
+  const lower = value.toLowerCase();
+  return lower === 'true' || lower === '1' || lower === keyword.toLowerCase();
+}
+
+/**
+ * Format an expiry date like Apache: "Sun, 06-Nov-1994 08:49:37 GMT"
+ */
+export function formatCookieDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${DAYS[date.getUTCDay()]}, ${pad(date.getUTCDate())}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} GMT`;
+}
+
+/**
+ * Parse an expanded [CO=...] flag value into a cookie.
+ *
+ * Syntax: NAME:VALUE:DOMAIN[:lifetime[:path[:secure[:httponly[:samesite]]]]]
+ * If the value starts with ';', fields are separated by ';' instead of ':'.
+ * Returns null if name, value or domain is missing.
+ */
+export function parseCookie(flagValue: string, now: Date): ResponseCookie | null {
+  let separator = ':';
+  let value = flagValue;
+  if (value.startsWith(';')) {
+    separator = ';';
+    value = value.slice(1);
+  }
+
+  const fields = value.split(separator);
+  const [name, cookieValue, domain, lifetimeStr, path, secure, httpOnly, sameSite] = fields;
+
+  if (!name || cookieValue === undefined || !domain) {
+    return null;
+  }
+
+  const lifetime = lifetimeStr !== undefined ? parseInt(lifetimeStr, 10) || 0 : null;
+  const sameSiteValue = sameSite !== undefined && sameSite !== '0' && sameSite.toLowerCase() !== 'false'
+    ? sameSite
+    : null;
+
+  const cookie: ResponseCookie = {
+    name,
+    value: cookieValue,
+    domain,
+    lifetime,
+    path: path || '/',
+    secure: isEnabled(secure, 'secure'),
+    httpOnly: isEnabled(httpOnly, 'HttpOnly'),
+    sameSite: sameSiteValue,
+    header: ''
+  };
+
+  cookie.header = buildSetCookieHeader(cookie, now);
+  return cookie;
+}
+
+/**
+ * Build the Set-Cookie header value for a cookie.
+ * A lifetime of 0 (or none) produces a session cookie.
+ */
+export function buildSetCookieHeader(cookie: ResponseCookie, now: Date): string {
+  let header = `${cookie.name}=${cookie.value}; path=${cookie.path}; domain=${cookie.domain}`;
+
+  if (cookie.lifetime) {
+    const expires = new Date(now.getTime() + cookie.lifetime * 60 * 1000);
+    header += `; expires=${formatCookieDate(expires)}`;
+  }
+  if (cookie.secure) {
+    header += '; secure';
+  }
+  if (cookie.httpOnly) {
+    header += '; HttpOnly';
+  }
+  if (cookie.sameSite) {
+    header += `; SameSite=${cookie.sameSite}`;
+  }
+
+  return header;
+}
@@ -4,20 +4,70 @@
 
 import {
   AstNode,
+  ContainerNode,
+  FileTestOperator,
+  IntegerCompareOperator,
+  RedirectDirective,
+  RewriteOption,
   RewriteCondDirective,
+  StringCompareOperator,
   RewriteRuleDirective,
-  RuleFlags
+  RuleFlags,
+  flattenNodes
 } from './ast';
 import { parse } from './parser';
+import { parseCookie } from './cookies';
+import { ExprContext, evaluateExpression, globToRegExp } from './expr';
+import { buildServerVariables, isKnownVariable } from './variables';
+import { RewriteMap, loadRewriteMap, lookupRewriteMap } from './maps';
+import { createModuleSet, normalizeModuleName } from './modules';
+import { describeVirtualHost, selectVirtualHost } from './vhosts';
+import { compilePattern, matchPattern, matchWithTimeout } from './regex-safety';
+import {
+  DEFAULT_DOCUMENT_ROOT,
+  createVirtualFileSystem,
+  evaluateFileTest,
+  joinPath,
+  resolveRequestFilename,
+  statPath
+} from './filesystem';
 import {
   EngineInput,
   EngineOutput,
   EngineConfig,
+  EngineContext,
+  EngineReason,
   EngineStatus,
+  EvaluationPass,
+  FileSystemProvider,
+  MapLookup,
+  PassReason,
+  ResponseCookie,
   TraceLine,
   DEFAULT_ENGINE_CONFIG
 } from '../shared/types';
 
+/**
+ * A parsed .htaccess file
+ */
+interface RuleFile {
+  directory: string;          // Relative to the document root; '' for the document root
+  depth: number;              // Number of directory levels below the document root
+  label: string | undefined;  // Trace label; only set when several files are tested
+  nodes: AstNode[];
+  options: RewriteOption[];   // From its RewriteOptions directives
+  hasRewriteConfig: boolean;  // Whether it contains mod_rewrite directives at all
+}
+
+/**
+ * The files that run in a pass
+ */
+interface PassPlan {
+  overridden: RuleFile[]; // Applicable files whose rewrite rules do not run (replaced, or they have none)
+  merged: RuleFile[];     // Files whose rewrite rules run, in order
+  directory: string;      // Directory of the deepest file with rewrite rules
+}
+
 /**
  * Internal evaluation state
  */
@@ -28,25 +78,54 @@ interface EvalState {
   scheme: string;
   host: string;
   env: Record<string, string>;
+  headers: Record<string, string>;     // Request headers keyed by lower-case name, read by %{HTTP:name}
+  environment: Record<string, string>; // Set by [E=var:val], read by %{ENV:var}
+  cookies: ResponseCookie[];           // Set by [CO=...]
+  documentRoot: string;
+  filesystem: FileSystemProvider;
+  now: Date;
+  modules: Set<string>;           // Loaded modules by normalized name, for <IfModule>
+  maps: Map<string, RewriteMap>;  // Declared by RewriteMap, read by ${map:key|default}
+  mapLookups: MapLookup[];        // Lookups made for the line being evaluated
+  aliasRedirects: { node: RedirectDirective; line: TraceLine; depth: number }[]; // mod_alias redirects seen in this pass
+  context: EngineContext;
+  virtualHost: ContainerNode | null; // The <VirtualHost> serving the request in vhost context
+  file: RuleFile | null;   // The .htaccess file being run
+  directory: string;       // Directory of the rules in effect, relative to the document root
   ruleCaptures: string[];  // $1-$9
   condCaptures: string[];  // %1-%9
   stopped: boolean;
   hardStop: boolean;       // END flag
+  restart: boolean;        // N flag
+  nextLimit: number | null;
+  rounds: number;
   redirect: number | null;
+  translated: boolean;     // A rule with a substitution was applied; in server context this ends URL translation
   iterations: number;
+  pass: number;
   rewriteBase: string;
   engineEnabled: boolean;
+  config: EngineConfig;
 }
 
 /**
  * Parse a URL into components
  */
-function parseUrl(url: string): { scheme: string; host: string; path: string; query: string } {
+function parseUrl(url: string): {
+  scheme: string;
+  host: string;
+  hostname: string;
+  port: string;
+  path: string;
+  query: string;
+} {
   try {
     const parsed = new URL(url);
     return {
       scheme: parsed.protocol.replace(':', ''),
       host: parsed.host,
+      hostname: parsed.hostname,
+      port: parsed.port,
       path: parsed.pathname.replace(/^\//, ''), // Remove leading slash for pattern matching
       query: parsed.search.replace(/^\?/, '')
     };
@@ -54,14 +133,17 @@ function parseUrl(url: string): { scheme: string; host: string; path: string; qu
     // Fallback for malformed URLs
     const match = url.match(/^(https?):\/\/([^/]+)(\/[^?]*)?(\?.*)?$/);
     if (match) {
+      const [hostname, port = ''] = match[2].split(':');
       return {
         scheme: match[1],
         host: match[2],
+        hostname,
+        port,
         path: (match[3] || '/').replace(/^\//, ''),
         query: (match[4] || '').replace(/^\?/, '')
       };
     }
-    return { scheme: 'http', host: '', path: url, query: '' };
+    return { scheme: 'http', host: '', hostname: '', port: '', path: url, query: '' };
   }
 }
 
@@ -74,24 +156,60 @@ function buildUrl(scheme: string, host: string, path: string, query: string): st
   return `${scheme}://${host}${normalizedPath}${queryPart}`;
 }
 
+/**
+ * Build the request header map (lower-case names) from the request input.
+ * The Host header defaults to the URL host and cookies are folded into the Cookie header.
+ */
+function buildRequestHeaders(input: EngineInput, host: string): Record<string, string> {
+  const headers: Record<string, string> = { host };
+
+  for (const [name, value] of Object.entries(input.request?.headers ?? {})) {
+    headers[name.trim().toLowerCase()] = value;
+  }
+
+  const cookies = Object.entries(input.request?.cookies ?? {}).map(([name, value]) => `${name}=${value}`);
+  if (cookies.length > 0) {
+    headers.cookie = headers.cookie ? `${headers.cookie}; ${cookies.join('; ')}` : cookies.join('; ');
+  }
+
+  return headers;
+}
+
 /**
  * Initialize evaluation state from input
  */
-function initState(input: EngineInput): EvalState {
-  const { scheme, host, path, query } = parseUrl(input.url);
+function initState(input: EngineInput, files: RuleFile[], config: EngineConfig): EvalState {
+  const { scheme, host, hostname, port, path, query } = parseUrl(input.url);
+  const now = input.now ?? new Date();
+  const headers = buildRequestHeaders(input, host);
+  const documentRoot = input.documentRoot || DEFAULT_DOCUMENT_ROOT;
+  const filesystem = Array.isArray(input.filesystem) || input.filesystem === undefined
+    ? createVirtualFileSystem(input.filesystem ?? [], documentRoot)
+    : input.filesystem;
+  const context = input.context ?? 'directory';
+  // In server context the URL has not been mapped to a file yet, so REQUEST_FILENAME is the URL-path
+  const { filename, pathInfo } = context === 'directory'
+    ? resolveRequestFilename(filesystem, documentRoot, path)
+    : { filename: '/' + path, pathInfo: '' };
 
   // Build environment with server variables
-  // Auto-populate common variables from the URL, then overlay user-provided ones
+  // Derive the catalogued variables from the URL and request, then overlay user-provided ones
   const env: Record<string, string> = {
-    HTTP_HOST: host,
-    SERVER_NAME: host,
-    REQUEST_SCHEME: scheme,
-    HTTPS: scheme === 'https' ? 'on' : '',
-    SERVER_PORT: scheme === 'https' ? '443' : '80',
-    REQUEST_METHOD: 'GET',
-    REQUEST_URI: '/' + path + (query ? '?' + query : ''),
-    QUERY_STRING: query,
-    // User-provided variables override auto-populated ones
+    ...buildServerVariables({
+      scheme,
+      hostname,
+      port,
+      path,
+      query,
+      method: (input.request?.method || 'GET').toUpperCase(),
+      remoteAddr: input.request?.remoteAddr || '127.0.0.1',
+      headers,
+      documentRoot,
+      filename,
+      pathInfo,
+      now
+    }),
+    // User-provided variables override derived ones
     ...input.serverVariables
   };
 
@@ -102,17 +220,112 @@ function initState(input: EngineInput): EvalState {
     scheme,
     host,
     env,
+    headers,
+    environment: {},
+    cookies: [],
+    documentRoot,
+    filesystem,
+    now,
+    modules: createModuleSet(input.modules),
+    // RewriteMap is rejected in .htaccess files, so per-directory rules get no maps
+    maps: context === 'directory' ? new Map() : loadRewriteMaps(files.flatMap(file => file.nodes), input.mapFiles ?? {}),
+    mapLookups: [],
+    aliasRedirects: [],
+    context,
+    virtualHost: context === 'vhost'
+      ? selectVirtualHost(files[0].nodes, hostname, port || (scheme === 'https' ? '443' : '80'))
+      : null,
+    file: null,
+    directory: '',
     ruleCaptures: [],
     condCaptures: [],
     stopped: false,
     hardStop: false,
+    restart: false,
+    nextLimit: null,
+    rounds: 1,
     redirect: null,
+    translated: false,
     iterations: 0,
+    pass: 0,
     rewriteBase: '/',
-    engineEnabled: true
+    engineEnabled: true,
+    config
   };
 }
 
+/**
+ * Load every RewriteMap in the ruleset, including those inside containers.
+ * Like Apache, maps are known before any rule runs.
+ */
+function loadRewriteMaps(nodes: AstNode[], files: Record<string, string>): Map<string, RewriteMap> {
+  const maps = new Map<string, RewriteMap>();
+  for (const node of flattenNodes(nodes)) {
+    if (node.kind === 'RewriteMap') {
+      maps.set(node.name, loadRewriteMap(node, files));
+    }
+  }
+  return maps;
+}
+
+/**
+ * Expand ${map:key|default} lookups. Nested lookups in the key or default are expanded first;
+ * looked-up values are not expanded again.
+ */
+function expandMapLookups(template: string, state: EvalState): string {
+  let result = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const start = template.indexOf('${', i);
+    if (start === -1) {
+      break;
+    }
+
+    // Find the matching closing brace
+    let depth = 0;
+    let end = -1;
+    for (let j = start + 1; j < template.length; j++) {
+      if (template[j] === '{') depth++;
+      if (template[j] === '}' && --depth === 0) {
+        end = j;
+        break;
+      }
+    }
+    if (end === -1) {
+      break;
+    }
+
+    result += template.slice(i, start);
+    const inner = expandMapLookups(template.slice(start + 2, end), state);
+    const colonIndex = inner.indexOf(':');
+
+    if (colonIndex === -1) {
+      // Not a map lookup; keep it as written
+      result += '${' + inner + '}';
+    } else {
+      const name = inner.slice(0, colonIndex);
+      const [key, defaultValue = ''] = splitOnce(inner.slice(colonIndex + 1), '|');
+      const map = state.maps.get(name);
+      const value = map ? lookupRewriteMap(map, key) : null;
+      state.mapLookups.push({ map: name, key, value });
+      result += value ?? defaultValue;
+    }
+
+    i = end + 1;
+  }
+
+  return result + template.slice(i);
+}
+
+/**
+ * Split a string at the first occurrence of a separator
+ */
+function splitOnce(value: string, separator: string): [string, string?] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value] : [value.slice(0, index), value.slice(index + 1)];
+}
+
 /**
  * Resolve variable references in a string
  */
@@ -122,8 +335,15 @@ function resolveVariables(
 ): string {
   let result = template;
 
-  // Resolve %{VAR} server variables
-  result = result.replace(/%\{([^}]+)\}/g, (_, varName) => {
+  // Resolve %{VAR} server variables, %{ENV:VAR} environment variables and %{HTTP:header} request headers
+  result = result.replace(/%\{([^}]+)\}/g, (_, varName: string) => {
+    const upperName = varName.toUpperCase();
+    if (upperName.startsWith('ENV:')) {
+      return lookupEnvironment(varName.slice(4), state);
+    }
+    if (upperName.startsWith('HTTP:')) {
+      return state.headers[varName.slice(5).trim().toLowerCase()] ?? '';
+    }
     return state.env[varName] ?? '';
   });
 
@@ -139,129 +359,271 @@ function resolveVariables(
     return state.condCaptures[index] ?? '';
   });
 
-  return result;
+  // Resolve ${map:key|default} lookups last, so keys can use all of the above
+  return expandMapLookups(result, state);
 }
 
 /**
- * Create a regex from a pattern with optional case-insensitivity
+ * Look up an environment variable for %{ENV:VAR}.
+ * Like Apache, falls back to the server environment when the variable was not set by a rule.
  */
-function createRegex(pattern: string, nocase: boolean): RegExp | null {
-  try {
-    const flags = nocase ? 'i' : '';
-    return new RegExp(pattern, flags);
-  } catch {
-    return null;
+function lookupEnvironment(name: string, state: EvalState): string {
+  return state.environment[name] ?? state.env[name] ?? '';
+}
+
+/**
+ * Apply [E=var:val] and [E=!var] settings of a matched rule.
+ * Each entry is expanded before it is split into name and value, as Apache does.
+ */
+function applyEnvironment(entries: string[], state: EvalState): void {
+  for (const entry of entries) {
+    const expanded = resolveVariables(entry, state);
+
+    if (expanded.startsWith('!')) {
+      delete state.environment[expanded.slice(1)];
+      continue;
+    }
+
+    const colonIndex = expanded.indexOf(':');
+    if (colonIndex === -1) {
+      state.environment[expanded] = '';
+    } else {
+      state.environment[expanded.slice(0, colonIndex)] = expanded.slice(colonIndex + 1);
+    }
+  }
+}
+
+/**
+ * Apply [CO=...] settings of a matched rule.
+ * Returns the flag values that could not be parsed.
+ */
+function applyCookies(entries: string[], state: EvalState): string[] {
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    const cookie = parseCookie(resolveVariables(entry, state), state.now);
+    if (!cookie) {
+      invalid.push(entry);
+      continue;
+    }
+
+    // Apache sets a cookie only once per request
+    if (!state.cookies.some(existing => existing.name === cookie.name)) {
+      state.cookies.push(cookie);
+    }
   }
+
+  return invalid;
+}
+
+/**
+ * Compare two strings lexicographically, like strcmp (or strcasecmp with [NC])
+ */
+function compareStrings(
+  operator: StringCompareOperator,
+  testString: string,
+  value: string,
+  nocase: boolean
+): boolean {
+  const left = nocase ? testString.toLowerCase() : testString;
+  const right = nocase ? value.toLowerCase() : value;
+
+  switch (operator) {
+    case '<': return left < right;
+    case '>': return left > right;
+    case '=': return left === right;
+    case '<=': return left <= right;
+    case '>=': return left >= right;
+  }
+}
+
+/**
+ * Compare two strings as integers; like atoi(), non-numeric input counts as 0
+ */
+function compareIntegers(operator: IntegerCompareOperator, testString: string, value: string): boolean {
+  const left = parseInt(testString, 10) || 0;
+  const right = parseInt(value, 10) || 0;
+
+  switch (operator) {
+    case '-eq': return left === right;
+    case '-ne': return left !== right;
+    case '-lt': return left < right;
+    case '-le': return left <= right;
+    case '-gt': return left > right;
+    case '-ge': return left >= right;
+  }
+}
+
+/**
+ * Give ap_expr expressions access to the request being evaluated
+ */
+function createExprContext(state: EvalState): ExprContext {
+  return {
+    variable: name => resolveVariables(`%{${name}}`, state),
+    header: name => state.headers[name.trim().toLowerCase()] ?? '',
+    environment: name => lookupEnvironment(name, state),
+    remoteAddr: state.env.REMOTE_ADDR ?? '',
+    fileTest: (operator, path) => {
+      if (operator === '-e') {
+        return statPath(state.filesystem, path) !== null;
+      }
+      const fileOperator = (operator === '-A' ? '-U' : operator) as FileTestOperator;
+      return evaluateFileTest(fileOperator, path, state.filesystem, state.documentRoot).met;
+    },
+    fileSize: path => {
+      const stat = statPath(state.filesystem, path);
+      return stat?.type === 'file' ? stat.size : 0;
+    },
+    match: (regex, nocase, subject) => {
+      return matchPattern(compilePattern(regex, nocase, state.config), subject, state.config).match;
+    }
+  };
+}
+
+/**
+ * The outcome of a single RewriteCond
+ */
+interface CondEvaluation {
+  met: boolean;
+  captures: string[] | null; // The new %N captures, or null if the condition does not set them
+  message: string | null;
+  subject?: string; // The expanded test string; not set for expr conditions
+  translatedPattern?: string | null;
 }
 
 /**
  * Evaluate a RewriteCond directive
  */
-function evaluateCond(
-  cond: RewriteCondDirective,
-  state: EvalState
-): { met: boolean; captures: string[] } {
+function evaluateCond(cond: RewriteCondDirective, state: EvalState): CondEvaluation {
   const testString = resolveVariables(cond.testString, state);
-  const regex = createRegex(cond.condPattern, cond.flags.nocase);
 
-  if (!regex) {
-    return { met: false, captures: [] };
+  const pattern = cond.pattern;
+
+  if (pattern.type === 'file') {
+    const result = evaluateFileTest(pattern.operator, testString, state.filesystem, state.documentRoot);
+    return {
+      met: cond.isNegated ? !result.met : result.met,
+      captures: null,
+      message: result.message,
+      subject: testString
+    };
+  }
+
+  if (pattern.type === 'expr') {
+    const result = evaluateExpression(pattern.expression, createExprContext(state));
+    const captures = result.value && result.captures.length > 0 ? result.captures : null;
+    return { met: result.value, captures, message: null };
+  }
+
+  if (pattern.type === 'string') {
+    const met = compareStrings(pattern.operator, testString, pattern.value, cond.flags.nocase);
+    return { met: cond.isNegated ? !met : met, captures: null, message: null, subject: testString };
+  }
+
+  if (pattern.type === 'integer') {
+    const met = compareIntegers(pattern.operator, testString, pattern.value);
+    return { met: cond.isNegated ? !met : met, captures: null, message: null, subject: testString };
+  }
+
+  const compiled = compilePattern(pattern.regex, cond.flags.nocase, state.config);
+  const { match, error } = matchPattern(compiled, testString, state.config);
+  if (error) {
+    return { met: false, captures: null, message: error, subject: testString, translatedPattern: compiled.translated };
   }
 
-  const match = testString.match(regex);
   let met = match !== null;
 
   if (cond.isNegated) {
     met = !met;
   }
 
-  const captures = match ? match.slice(1) : [];
+  // Only a match of a non-negated pattern sets %N, even if the pattern has no groups
+  const captures = match && !cond.isNegated ? match.slice(1).map(capture => capture ?? '') : null;
 
-  return { met, captures };
+  return { met, captures, message: compiled.risk, subject: testString, translatedPattern: compiled.translated };
 }
 
 /**
- * Evaluate a group of conditions (AND/OR logic)
+ * Evaluate the conditions of a rule in a single pass, pushing a trace line for each.
  *
- * Conditions are evaluated with these rules:
+ * Conditions are evaluated like Apache does:
  * - Conditions are ANDed together by default
  * - OR flag means "OR with the next condition"
  * - Example: A [OR], B, C means (A OR B) AND C
+ * - A met condition skips the rest of its OR chain, and a failed condition outside an OR chain
+ *   ends the evaluation; skipped conditions are not reached
+ * - A matched (non-negated) regex condition sets %N for the conditions after it and for the rule
  */
-function evaluateConditionGroup(
+function evaluateConditions(
   conditions: RewriteCondDirective[],
-  state: EvalState
-): { met: boolean; captures: string[] } {
-  if (conditions.length === 0) {
-    return { met: true, captures: [] };
-  }
-
-  let lastCaptures: string[] = [];
+  state: EvalState,
+  trace: TraceLine[]
+): boolean {
+  // %N never carries over from an earlier rule
+  state.condCaptures = [];
 
-  // Group conditions by OR chains, then AND the groups
-  let groupResult = true; // AND accumulator for groups
-  let orResult = false;   // OR accumulator within a group
+  let failed = false;
   let inOrChain = false;
+  let orChainMet = false;
 
-  for (let i = 0; i < conditions.length; i++) {
-    const cond = conditions[i];
-
-    // Short-circuit: if in OR chain and already true, skip evaluation
-    if (inOrChain && orResult) {
-      // Already have a true in this OR chain, skip this condition
+  for (const cond of conditions) {
+    if (failed || orChainMet) {
+      trace.push(createTraceLine(cond, state, false, false, true));
       if (!cond.flags.ornext) {
-        // End of OR chain - AND with group result
-        groupResult = groupResult && orResult;
-        orResult = false;
+        // End of the skipped OR chain
         inOrChain = false;
+        orChainMet = false;
       }
       continue;
     }
 
-    const result = evaluateCond(cond, state);
+    state.mapLookups = [];
+    const condEval = evaluateCond(cond, state);
+    const condLine = createTraceLine(cond, state, true, condEval.met, true, condEval.message);
+    condLine.warnings.push(...findVariableWarnings(
+      cond.pattern.type === 'expr' ? [cond.testString, cond.condPattern] : [cond.testString],
+      state
+    ));
+    condLine.mapLookups = state.mapLookups;
+    if (condEval.translatedPattern) {
+      condLine.translatedPattern = condEval.translatedPattern;
+    }
+    condLine.details = { subject: condEval.subject, captures: condEval.captures ?? [] };
+    trace.push(condLine);
 
-    if (result.met && result.captures.length > 0) {
-      lastCaptures = result.captures;
+    if (condEval.captures !== null) {
+      state.condCaptures = condEval.captures;
     }
 
     if (cond.flags.ornext) {
-      // This is part of an OR chain
-      orResult = orResult || result.met;
       inOrChain = true;
-    } else if (inOrChain) {
-      // End of OR chain - this condition is the last in the OR group
-      orResult = orResult || result.met;
-      groupResult = groupResult && orResult;
-      orResult = false;
-      inOrChain = false;
+      orChainMet = condEval.met;
     } else {
-      // Simple AND condition
-      groupResult = groupResult && result.met;
+      // A lone condition, or the last one of an OR chain
+      failed = !condEval.met;
+      inOrChain = false;
     }
   }
 
-  // Handle trailing OR chain (if conditions end with [OR] flag)
-  if (inOrChain) {
-    groupResult = groupResult && orResult;
-  }
-
-  return { met: groupResult, captures: lastCaptures };
+  // Conditions ending with [OR]: the trailing chain still has to be met
+  return !failed && (!inOrChain || orChainMet);
 }
 
 /**
- * Apply a RewriteRule substitution
+ * Apply a RewriteRule substitution.
+ * Also returns the substitution after expansion, for the trace.
  */
 function applySubstitution(
   rule: RewriteRuleDirective,
   state: EvalState,
   match: RegExpMatchArray
-): { newPath: string; newQuery: string } {
+): { newPath: string; newQuery: string; expanded: string } {
   // Store captures
   state.ruleCaptures = match.slice(1);
 
   // Handle "-" (no substitution)
   if (rule.substitution === '-') {
-    return { newPath: state.currentPath, newQuery: state.queryString };
+    return { newPath: state.currentPath, newQuery: state.queryString, expanded: '-' };
   }
 
   // Resolve variables in substitution
@@ -274,6 +636,9 @@ function applySubstitution(
     return match[index] ?? '';
   });
 
+  // An escaped space (\ ) keeps the argument together; the substitution gets the space itself
+  substitution = substitution.replace(/\\(\s)/g, '$1');
+
   // Check if it's an absolute URL
   if (/^https?:\/\//i.test(substitution)) {
     const { scheme, host, path, query } = parseUrl(substitution);
@@ -289,7 +654,7 @@ function applySubstitution(
       finalQuery = query; // Only keep new query
     }
 
-    return { newPath: path, newQuery: finalQuery };
+    return { newPath: path, newQuery: finalQuery, expanded: substitution };
   }
 
   // Parse substitution for query string
@@ -318,7 +683,7 @@ function applySubstitution(
     newQuery = state.queryString;
   }
 
-  return { newPath, newQuery };
+  return { newPath, newQuery, expanded: substitution };
 }
 
 /**
@@ -326,46 +691,218 @@ function applySubstitution(
  */
 function createTraceLine(
   node: AstNode,
+  state: EvalState,
   reached: boolean,
   met: boolean,
   valid: boolean,
   message: string | null = null
 ): TraceLine {
-  return {
+  const line: TraceLine = {
     lineNo: node.sourceLineNo,
     rawLine: node.rawLine.trim(),
     valid,
     reached,
     met,
-    message
+    message,
+    pass: state.pass,
+    warnings: node.kind === 'RewriteCond' || node.kind === 'RewriteRule'
+      ? node.flagDiagnostics.map(diagnostic => diagnostic.message)
+      : [],
+    mapLookups: []
   };
+  if (state.file?.label) {
+    line.file = state.file.label;
+  }
+  return line;
 }
 
 /**
- * Main evaluation function
+ * Warn about %{NAME} references that are unknown or resolve to an empty string
  */
-export function evaluate(
-  input: EngineInput,
-  config: EngineConfig = DEFAULT_ENGINE_CONFIG
-): EngineOutput {
-  const state = initState(input);
-  const doc = parse(input.rules);
-  const trace: TraceLine[] = [];
+function findVariableWarnings(texts: string[], state: EvalState): string[] {
+  const warnings: string[] = [];
+
+  for (const text of texts) {
+    for (const [reference, name] of text.matchAll(/%\{([^}]+)\}/g)) {
+      let warning: string | null = null;
+      // Lookups like %{ENV:name} and %{HTTP:name} are always known
+      if (!name.includes(':') && !isKnownVariable(name) && state.env[name] === undefined) {
+        warning = `Unknown variable ${reference}`;
+      } else if (resolveVariables(reference, state) === '') {
+        warning = `${reference} resolved to an empty string`;
+      }
+
+      if (warning && !warnings.includes(warning)) {
+        warnings.push(warning);
+      }
+    }
+  }
 
-  // Collect conditions that apply to the next rule
-  let pendingConditions: RewriteCondDirective[] = [];
+  return warnings;
+}
 
-  for (let i = 0; i < doc.nodes.length; i++) {
-    const node = doc.nodes[i];
+/**
+ * Rule processing state that carries across container boundaries within a pass
+ */
+interface PassContext {
+  pendingConditions: RewriteCondDirective[]; // Conditions that apply to the next rule
+  chainBroken: boolean;                      // A rule with [C] did not match; the rest of its chain is skipped
+  skipRemaining: number;                     // Rules still to be skipped after a matching rule with [S=n]
+  skipMessage: string;
+  overriddenBy: string | null;               // Rewrite directives are replaced by this file's rules
+}
 
-    // Check iteration limit
-    if (state.iterations > config.maxIterations) {
-      return {
-        finalUrl: buildUrl(state.scheme, state.host, state.currentPath, state.queryString),
-        status: 'limit-exceeded',
-        statusCode: state.redirect,
-        trace
-      };
+const REWRITE_DIRECTIVES: AstNode['kind'][] = [
+  'RewriteEngine', 'RewriteBase', 'RewriteCond', 'RewriteRule', 'RewriteMap', 'RewriteOptions'
+];
+
+/**
+ * Describe a set of parsed rules
+ */
+function createRuleFile(directory: string, label: string | undefined, nodes: AstNode[]): RuleFile {
+  const flat = flattenNodes(nodes);
+  return {
+    directory,
+    depth: directory ? directory.split('/').length : 0,
+    label,
+    nodes,
+    options: flat.flatMap(node => (node.kind === 'RewriteOptions' ? node.options : [])),
+    hasRewriteConfig: flat.some(node => REWRITE_DIRECTIVES.includes(node.kind))
+  };
+}
+
+/**
+ * Parse the document root's rules and the .htaccess files of its subdirectories.
+ * Subdirectory files only take part in per-directory context.
+ */
+function loadRuleFiles(input: EngineInput): RuleFile[] {
+  const subdirectories = (input.context ?? 'directory') === 'directory' ? input.htaccessFiles ?? [] : [];
+  const sources = [
+    { directory: '', rules: input.rules },
+    ...subdirectories.map(file => ({ ...file, directory: file.directory.replace(/^\/+|\/+$/g, '') }))
+  ];
+  const labelled = sources.length > 1;
+
+  return sources
+    .map(({ directory, rules }) =>
+      createRuleFile(directory, labelled ? (directory ? `${directory}/.htaccess` : '.htaccess') : undefined, parse(rules).nodes))
+    .sort((a, b) => a.depth - b.depth);
+}
+
+/**
+ * Work out what runs in server context. A selected virtual host replaces the main server's rules
+ * unless it sets RewriteOptions Inherit (main server rules after its own) or InheritBefore.
+ */
+function planServerPass(main: RuleFile, virtualHost: ContainerNode | null): PassPlan {
+  if (!virtualHost) {
+    return { overridden: [], merged: [main], directory: '' };
+  }
+
+  const server = { ...main, label: 'server config' };
+  const vhost = createRuleFile('', describeVirtualHost(virtualHost), virtualHost.children);
+
+  if (vhost.options.includes('Inherit')) {
+    return { overridden: [], merged: [vhost, server], directory: '' };
+  }
+  if (vhost.options.includes('InheritBefore')) {
+    return { overridden: [], merged: [server, vhost], directory: '' };
+  }
+  return { overridden: [server], merged: [vhost], directory: '' };
+}
+
+/**
+ * Work out which files apply to a URL-path and how their rewrite rules merge.
+ * Like Apache's per-directory merging, a deeper file replaces the rules of its parents unless
+ * RewriteOptions Inherit (parent rules after its own) or InheritBefore (parent rules first) is set,
+ * or a parent set InheritDown/InheritDownBefore that the file does not refuse with IgnoreInherit.
+ * Files without mod_rewrite directives leave the rewrite configuration alone.
+ */
+function planPass(files: RuleFile[], path: string): PassPlan {
+  const applicable = files.filter(file =>
+    file.directory === '' || path === file.directory || path.startsWith(file.directory + '/'));
+
+  let merged: RuleFile[] = [];
+  let inheritDown: 'after' | 'before' | null = null;
+
+  for (const file of applicable.filter(f => f.hasRewriteConfig)) {
+    const options = file.options;
+    let inherit: 'after' | 'before' | null = null;
+    if (options.includes('Inherit')) {
+      inherit = 'after';
+    } else if (options.includes('InheritBefore')) {
+      inherit = 'before';
+    } else if (!options.includes('IgnoreInherit')) {
+      inherit = inheritDown;
+    }
+
+    if (inherit === 'after') {
+      merged = [file, ...merged];
+    } else if (inherit === 'before') {
+      merged = [...merged, file];
+    } else {
+      merged = [file];
+    }
+
+    if (options.includes('InheritDown')) {
+      inheritDown = 'after';
+    } else if (options.includes('InheritDownBefore')) {
+      inheritDown = 'before';
+    }
+  }
+
+  const deepest = merged.reduce<RuleFile | null>((found, file) => (!found || file.depth > found.depth ? file : found), null);
+  return {
+    overridden: applicable.filter(file => !merged.includes(file)),
+    merged,
+    directory: deepest?.directory ?? ''
+  };
+}
+
+/**
+ * Run a single pass over the applicable files, appending to the trace.
+ * Inherited rules run as if they were written in the deepest directory, as in Apache.
+ */
+function runPass(plan: PassPlan, state: EvalState, trace: TraceLine[]): void {
+  const deepest = plan.merged.find(file => file.directory === plan.directory);
+  const newContext = (overriddenBy: string | null): PassContext =>
+    ({ pendingConditions: [], chainBroken: false, skipRemaining: 0, skipMessage: '', overriddenBy });
+
+  state.aliasRedirects = [];
+  state.directory = plan.directory;
+  state.rewriteBase = plan.directory ? `/${plan.directory}/` : '/';
+
+  // Overridden files still count for non-rewrite directives such as Redirect
+  for (const file of plan.overridden) {
+    state.file = file;
+    runNodes(file.nodes, state, trace, newContext(file.hasRewriteConfig ? deepest?.label ?? null : null));
+  }
+
+  const context = newContext(null);
+  for (const file of plan.merged) {
+    state.file = file;
+    runNodes(file.nodes, state, trace, context);
+  }
+  state.file = null;
+}
+
+/**
+ * Run a list of sibling nodes; container sections recurse into their children
+ */
+function runNodes(nodes: AstNode[], state: EvalState, trace: TraceLine[], context: PassContext): void {
+  // Whether a branch of the current <If>/<ElseIf>/<Else> chain was taken; null outside a chain
+  let branchTaken: boolean | null = null;
+
+  for (const node of nodes) {
+    if (node.kind === 'Container') {
+      branchTaken = runContainer(node, state, trace, context, branchTaken);
+      continue;
+    }
+    if (node.kind !== 'BlankLine' && node.kind !== 'Comment') {
+      branchTaken = null;
+    }
+    if (context.overriddenBy && REWRITE_DIRECTIVES.includes(node.kind)) {
+      trace.push(createTraceLine(node, state, false, false, true, `overridden by ${context.overriddenBy}`));
+      continue;
     }
 
     // Process based on node type
@@ -376,16 +913,20 @@ export function evaluate(
 
       case 'Comment':
         // Comments are reached but don't affect evaluation
-        trace.push(createTraceLine(node, true, true, true));
+        trace.push(createTraceLine(node, state, true, true, true));
         break;
 
       case 'RewriteEngine':
         state.engineEnabled = node.on;
-        trace.push(createTraceLine(node, true, true, true));
+        trace.push(createTraceLine(node, state, true, true, true));
         break;
 
       case 'RewriteBase':
-        trace.push(createTraceLine(node, state.engineEnabled, true, true));
+        if (state.context !== 'directory') {
+          trace.push(createTraceLine(node, state, true, false, false, 'RewriteBase is only valid in per-directory context'));
+          break;
+        }
+        trace.push(createTraceLine(node, state, state.engineEnabled, true, true));
         if (state.engineEnabled) {
           state.rewriteBase = node.base.endsWith('/') ? node.base : node.base + '/';
         }
@@ -394,13 +935,13 @@ export function evaluate(
       case 'RewriteCond':
         if (!state.engineEnabled) {
           // Engine off: condition not reached
-          trace.push(createTraceLine(node, false, false, true));
+          trace.push(createTraceLine(node, state, false, false, true));
         } else if (state.stopped || state.hardStop) {
           // Stopped: condition not reached
-          trace.push(createTraceLine(node, false, false, true));
+          trace.push(createTraceLine(node, state, false, false, true));
         } else {
           // Collect condition for next rule
-          pendingConditions.push(node);
+          context.pendingConditions.push(node);
           // We'll add trace for conditions when processing the rule
         }
         break;
@@ -409,124 +950,629 @@ export function evaluate(
         if (!state.engineEnabled) {
           // Engine off: rule not reached
           // Also add trace for any pending conditions
-          for (const cond of pendingConditions) {
-            trace.push(createTraceLine(cond, false, false, true));
+          for (const cond of context.pendingConditions) {
+            trace.push(createTraceLine(cond, state, false, false, true));
           }
-          trace.push(createTraceLine(node, false, false, true));
-          pendingConditions = [];
+          trace.push(createTraceLine(node, state, false, false, true));
+          context.pendingConditions = [];
         } else if (state.stopped || state.hardStop) {
           // Stopped: rule not reached
-          for (const cond of pendingConditions) {
-            trace.push(createTraceLine(cond, false, false, true));
+          for (const cond of context.pendingConditions) {
+            trace.push(createTraceLine(cond, state, false, false, true));
+          }
+          trace.push(createTraceLine(node, state, false, false, true));
+          context.pendingConditions = [];
+        } else if (context.chainBroken) {
+          // Previous rule in the chain did not match: skip this one
+          for (const cond of context.pendingConditions) {
+            trace.push(createTraceLine(cond, state, false, false, true, 'skipped: chain broken'));
           }
-          trace.push(createTraceLine(node, false, false, true));
-          pendingConditions = [];
+          trace.push(createTraceLine(node, state, false, false, true, 'skipped: chain broken'));
+          context.pendingConditions = [];
+          // The chain ends at the first rule without [C]
+          context.chainBroken = node.flags.chain;
+        } else if (context.skipRemaining > 0) {
+          // Skipped by an earlier [S=n]; conditions are part of the rule they precede
+          for (const cond of context.pendingConditions) {
+            trace.push(createTraceLine(cond, state, false, false, true, context.skipMessage));
+          }
+          trace.push(createTraceLine(node, state, false, false, true, context.skipMessage));
+          context.pendingConditions = [];
+          context.skipRemaining--;
         } else {
-          // Process conditions and rule
-          state.iterations++;
-
-          // Evaluate conditions
-          const condResult = evaluateConditionGroup(pendingConditions, state);
-
-          // Add condition traces with proper OR short-circuit handling
-          let orShortCircuited = false;
-          for (let j = 0; j < pendingConditions.length; j++) {
-            const cond = pendingConditions[j];
-
-            if (orShortCircuited) {
-              // This condition was skipped due to OR short-circuit
-              trace.push(createTraceLine(cond, false, false, true));
-              // If this condition also has OR, continue short-circuiting
-              if (!cond.flags.ornext) {
-                orShortCircuited = false;
-              }
-              continue;
-            }
-
-            const condEval = evaluateCond(cond, state);
-            trace.push(createTraceLine(cond, true, condEval.met, true));
-
-            // If this condition has OR flag and matched, next condition is short-circuited
-            if (cond.flags.ornext && condEval.met) {
-              orShortCircuited = true;
-            }
+          const matched = evaluateRule(node, context.pendingConditions, state, trace);
+          context.chainBroken = !matched && node.flags.chain;
+          if (matched && node.flags.skip !== null) {
+            context.skipRemaining = node.flags.skip;
+            context.skipMessage = `skipped: [S=${node.flags.skip}] on line ${node.sourceLineNo}`;
           }
+          context.pendingConditions = [];
+        }
+        break;
 
-          // Store condition captures
-          if (condResult.met && condResult.captures.length > 0) {
-            state.condCaptures = condResult.captures;
-          }
+      case 'RewriteMap': {
+        if (state.context === 'directory') {
+          trace.push(createTraceLine(node, state, true, false, false, 'RewriteMap is only valid in server config'));
+          break;
+        }
+        // Maps are loaded up front; the line reports whether the map is usable
+        const error = state.maps.get(node.name)?.error ?? null;
+        trace.push(createTraceLine(node, state, true, error === null, error === null, error));
+        break;
+      }
 
-          if (!condResult.met) {
-            // Conditions not met: rule not reached
-            trace.push(createTraceLine(node, false, false, true));
-          } else {
-            // Try to match the rule pattern
-            const regex = createRegex(node.pattern, node.flags.nocase);
-
-            if (!regex) {
-              // Invalid pattern
-              trace.push(createTraceLine(node, true, false, false, 'Invalid regex pattern'));
-            } else {
-              // Get the path to match against (strip RewriteBase prefix if present)
-              let matchPath = state.currentPath;
-              const basePrefix = state.rewriteBase.replace(/^\//, '').replace(/\/$/, '');
-              if (basePrefix && matchPath.startsWith(basePrefix + '/')) {
-                matchPath = matchPath.slice(basePrefix.length + 1);
-              } else if (basePrefix && matchPath === basePrefix) {
-                matchPath = '';
-              }
-
-              const match = matchPath.match(regex);
-
-              if (!match) {
-                // Pattern didn't match
-                trace.push(createTraceLine(node, true, false, true));
-              } else {
-                // Pattern matched - apply substitution
-                trace.push(createTraceLine(node, true, true, true));
-
-                const { newPath, newQuery } = applySubstitution(node, state, match);
-                state.currentPath = newPath;
-                state.queryString = newQuery;
-
-                // Apply flags
-                applyRuleFlags(node.flags, state);
-              }
-            }
-          }
+      case 'RewriteOptions':
+        trace.push(createTraceLine(node, state, true, true, true));
+        break;
 
-          pendingConditions = [];
+      case 'ServerName':
+        if (state.context === 'directory') {
+          trace.push(createTraceLine(node, state, true, false, false, `${node.directive} is only valid in server config`));
+        } else {
+          trace.push(createTraceLine(node, state, true, true, true));
         }
         break;
 
+      case 'Redirect': {
+        // mod_alias runs after mod_rewrite; the line is updated by applyAliasRedirects
+        const line = createTraceLine(node, state, false, false, true);
+        state.aliasRedirects.push({ node, line, depth: state.file?.depth ?? 0 });
+        trace.push(line);
+        break;
+      }
+
       case 'Unknown':
         // Unknown directives are valid but unsupported
-        trace.push(createTraceLine(node, state.engineEnabled, false, true,
+        trace.push(createTraceLine(node, state, state.engineEnabled, false, true,
           `Unsupported directive: ${node.directive}`));
         break;
 
       case 'ParseError':
         // Parse errors are invalid
-        trace.push(createTraceLine(node, true, false, false, node.message));
+        trace.push(createTraceLine(node, state, true, false, false, node.message));
         break;
     }
   }
+}
+
+/**
+ * Run a container section: trace its opening line, run or skip its children, then trace its closing line.
+ * Returns whether a branch of the <If>/<ElseIf>/<Else> chain the section belongs to was taken.
+ */
+function runContainer(
+  node: ContainerNode,
+  state: EvalState,
+  trace: TraceLine[],
+  context: PassContext,
+  branchTaken: boolean | null
+): boolean | null {
+  if (node.test.type === 'vhost') {
+    runVirtualHost(node, state, trace);
+    return null;
+  }
 
-  // Determine final status
-  let status: EngineStatus = 'ok';
+  const name = node.name.toLowerCase();
+  const chained = name === 'elseif' || name === 'else';
+  let valid = node.test.type !== 'invalid';
+  let entered = false;
+  let message: string | null;
+
+  if (chained && branchTaken === null) {
+    valid = false;
+    message = `<${node.name}> must follow an <If> or <ElseIf> section`;
+  } else if (chained && branchTaken) {
+    message = 'skipped: an earlier branch was taken';
+  } else {
+    ({ entered, message } = testContainer(node, state));
+  }
+
+  if (node.end === null) {
+    valid = false;
+    message = `Missing </${node.name}>`;
+  }
+
+  trace.push(createTraceLine(node, state, true, entered, valid, message));
+  if (entered) {
+    runNodes(node.children, state, trace, context);
+  } else {
+    traceNotReached(node.children, state, trace);
+  }
+  if (node.end) {
+    trace.push(createClosingTraceLine(node, state, true, entered));
+  }
+
+  if (name === 'if') {
+    return entered;
+  }
+  return chained && branchTaken !== null ? branchTaken || entered : null;
+}
+
+/**
+ * Trace a <VirtualHost> section. The contents of the selected one are run separately (see planServerPass).
+ */
+function runVirtualHost(node: ContainerNode, state: EvalState, trace: TraceLine[]): void {
+  const selected = node === state.virtualHost;
+  let valid = state.context !== 'directory';
+  let message = valid ? (selected ? `selected for ${state.host}` : 'not selected') : '<VirtualHost> is only valid in server config';
+
+  if (node.end === null) {
+    valid = false;
+    message = `Missing </${node.name}>`;
+  }
+
+  trace.push(createTraceLine(node, state, true, selected, valid, message));
+  if (!selected) {
+    traceNotReached(node.children, state, trace);
+  }
+  if (node.end) {
+    trace.push(createClosingTraceLine(node, state, true, selected));
+  }
+}
+
+/**
+ * Decide whether the contents of a container section apply to the request
+ */
+function testContainer(node: ContainerNode, state: EvalState): { entered: boolean; message: string | null } {
+  const test = node.test;
+
+  switch (test.type) {
+    case 'module': {
+      const loaded = state.modules.has(normalizeModuleName(test.module));
+      return { entered: loaded !== test.negated, message: `${test.module} is ${loaded ? 'loaded' : 'not loaded'}` };
+    }
+    case 'expr': {
+      const { value } = evaluateExpression(test.expression, createExprContext(state));
+      return { entered: value, message: `expression is ${value}` };
+    }
+    case 'else':
+      return { entered: true, message: null };
+    case 'files': {
+      // Sections match the last path segment of the file the request maps to
+      const filename = (state.env.REQUEST_FILENAME ?? '').split('/').pop() ?? '';
+      const { match, error } = test.regex
+        ? matchPattern(compilePattern(test.pattern, false, state.config), filename, state.config)
+        : matchWithTimeout(globToRegExp(test.pattern, false, true), filename, state.config);
+      if (error) {
+        return { entered: false, message: error };
+      }
+      const matched = match !== null;
+      return { entered: matched, message: `"${filename}" ${matched ? 'matches' : 'does not match'}` };
+    }
+    case 'vhost':
+    case 'unsupported':
+      return { entered: false, message: `Unsupported container: <${node.name}>` };
+    case 'invalid':
+      return { entered: false, message: test.message };
+  }
+}
+
+/**
+ * Trace the contents of a section that was not entered; none of it is reached
+ */
+function traceNotReached(nodes: AstNode[], state: EvalState, trace: TraceLine[]): void {
+  for (const node of nodes) {
+    if (node.kind === 'BlankLine') {
+      continue;
+    }
+    if (node.kind === 'ParseError') {
+      trace.push(createTraceLine(node, state, false, false, false, node.message));
+      continue;
+    }
+
+    trace.push(createTraceLine(node, state, false, false, node.kind !== 'Container' || node.test.type !== 'invalid'));
+    if (node.kind === 'Container') {
+      traceNotReached(node.children, state, trace);
+      if (node.end) {
+        trace.push(createClosingTraceLine(node, state, false, false));
+      }
+    }
+  }
+}
+
+/**
+ * Create a trace line for the closing tag of a container section
+ */
+function createClosingTraceLine(node: ContainerNode, state: EvalState, reached: boolean, met: boolean): TraceLine {
+  return {
+    ...createTraceLine(node, state, reached, met, true),
+    lineNo: node.end?.sourceLineNo ?? node.sourceLineNo,
+    rawLine: node.end?.rawLine.trim() ?? ''
+  };
+}
+
+/**
+ * Evaluate a RewriteRule together with its conditions.
+ * Returns true if the rule matched and was applied.
+ */
+function evaluateRule(
+  node: RewriteRuleDirective,
+  pendingConditions: RewriteCondDirective[],
+  state: EvalState,
+  trace: TraceLine[]
+): boolean {
+  // Apache matches the rule pattern before its conditions, so $N is available to them
+  const compiled = compilePattern(node.pattern, node.flags.nocase, state.config);
+
+  // Get the path to match against (strip RewriteBase prefix if present)
+  let matchPath = state.currentPath;
+  // Per-directory rules see the path relative to their directory
+  const basePrefix = (state.directory || state.rewriteBase.replace(/^\//, '')).replace(/\/$/, '');
+  if (state.context !== 'directory') {
+    // Server config rules see the full URL-path, leading slash included
+    matchPath = '/' + matchPath.replace(/^\//, '');
+  } else if (basePrefix && matchPath.startsWith(basePrefix + '/')) {
+    matchPath = matchPath.slice(basePrefix.length + 1);
+  } else if (basePrefix && matchPath === basePrefix) {
+    matchPath = '';
+  }
+
+  const { match, error } = matchPattern(compiled, matchPath, state.config);
+  // A rule that does not match leaves no $N behind from an earlier rule
+  state.ruleCaptures = match ? match.slice(1) : [];
+
+  if (!match) {
+    // Apache evaluates the conditions only once the pattern has matched
+    for (const cond of pendingConditions) {
+      trace.push(createTraceLine(cond, state, false, false, true));
+    }
+
+    if (!compiled.regex) {
+      // Invalid or unsupported pattern
+      trace.push(createTraceLine(node, state, true, false, false, error));
+      return false;
+    }
+
+    // Pattern didn't match, or could not be matched in time
+    const line = createTraceLine(node, state, true, false, true, error ?? compiled.risk);
+    if (compiled.translated) {
+      line.translatedPattern = compiled.translated;
+    }
+    line.details = { subject: matchPath, captures: [] };
+    trace.push(line);
+    return false;
+  }
+
+  if (!evaluateConditions(pendingConditions, state, trace)) {
+    // The pattern matched, but the conditions were not met
+    const line = createTraceLine(node, state, true, false, true, compiled.risk);
+    if (compiled.translated) {
+      line.translatedPattern = compiled.translated;
+    }
+    line.details = { subject: matchPath, captures: state.ruleCaptures.map(capture => capture ?? '') };
+    trace.push(line);
+    return false;
+  }
+
+  // Pattern matched - apply substitution
+  const traceLine = createTraceLine(node, state, true, true, true, compiled.risk);
+  if (compiled.translated) {
+    traceLine.translatedPattern = compiled.translated;
+  }
+  traceLine.warnings.push(...findVariableWarnings([node.substitution, ...node.flags.env, ...node.flags.cookie], state));
+  trace.push(traceLine);
+
+  state.mapLookups = [];
+  const { newPath, newQuery, expanded } = applySubstitution(node, state, match);
+  if (node.substitution !== '-') {
+    state.translated = true;
+  }
+  if (newPath !== state.currentPath) {
+    // The rewritten path is the new request filename; per-directory rewrites are mapped to the document root
+    state.env.REQUEST_FILENAME = state.context === 'directory'
+      ? joinPath(state.documentRoot, newPath)
+      : '/' + newPath.replace(/^\//, '');
+  }
+  state.currentPath = newPath;
+  state.queryString = newQuery;
+
+  applyEnvironment(node.flags.env, state);
+
+  const invalidCookies = applyCookies(node.flags.cookie, state);
+  traceLine.mapLookups = state.mapLookups;
+  if (invalidCookies.length > 0) {
+    traceLine.message = `Invalid cookie flag: ${invalidCookies.map(c => `CO=${c}`).join(', ')}`;
+  }
+
+  // Apply flags
+  applyRuleFlags(node.flags, state);
+
+  traceLine.details = {
+    subject: matchPath,
+    captures: match.slice(1).map(capture => capture ?? ''),
+    substitution: node.substitution,
+    expandedSubstitution: expanded,
+    path: state.currentPath,
+    query: state.queryString
+  };
+  return true;
+}
+
+/**
+ * Apply the mod_alias redirects seen in a pass. Like Apache's fixup hooks, they run after mod_rewrite
+ * regardless of where they appear, match the URL-path the pass started with, and the first match wins
+ * (redirects of deeper .htaccess files before those of their parents).
+ * A redirect, [F] or [G] from mod_rewrite ends the request before mod_alias runs.
+ * In server context, mod_rewrite and mod_alias both translate the URL and the first one to do so wins,
+ * so a rewrite there also keeps mod_alias from running.
+ */
+function applyAliasRedirects(state: EvalState, uri: string, query: string): void {
   if (state.redirect !== null) {
-    status = 'redirect';
+    for (const { line } of state.aliasRedirects) {
+      line.message = 'skipped: mod_rewrite already ended the request';
+    }
+    return;
+  }
+
+  if (state.context !== 'directory' && state.translated) {
+    for (const { line } of state.aliasRedirects) {
+      line.message = 'skipped: mod_rewrite already translated the URL';
+    }
+    return;
+  }
+
+  // Redirects of deeper directories come first
+  const redirects = [...state.aliasRedirects].sort((a, b) => b.depth - a.depth);
+  for (const { node, line } of redirects) {
+    if (state.redirect !== null) {
+      break;
+    }
+
+    line.reached = true;
+    const { target, error } = matchAliasRedirect(node, uri, state.config);
+    if (error) {
+      line.message = error;
+    }
+    if (target === null) {
+      continue;
+    }
+
+    line.met = true;
+    state.redirect = node.status;
+    state.stopped = true;
+
+    if (node.target === null) {
+      line.message = `Status ${node.status}`;
+      state.currentPath = uri;
+      state.queryString = query;
+      continue;
+    }
+
+    // Apache carries the query string over unless the target has its own
+    const location = query && !target.includes('?') ? `${target}?${query}` : target;
+    const parsed = parseUrl(/^[a-z][a-z0-9+.-]*:/i.test(location) ? location : buildUrl(state.scheme, state.host, location, ''));
+    state.scheme = parsed.scheme;
+    state.host = parsed.host;
+    state.currentPath = parsed.path;
+    state.queryString = parsed.query;
+    line.message = `Redirect (${node.status}) to ${location}`;
+  }
+}
+
+/**
+ * Match a mod_alias redirect against a URL-path.
+ * Returns the target with the unmatched remainder (Redirect) or backreferences (RedirectMatch) filled in,
+ * or a null target if the directive does not match or its pattern could not be matched.
+ */
+function matchAliasRedirect(
+  node: RedirectDirective,
+  uri: string,
+  config: EngineConfig
+): { target: string | null; error: string | null } {
+  if (node.regex) {
+    const { match, error } = matchPattern(compilePattern(node.path, false, config), uri, config);
+    if (!match) {
+      return { target: null, error };
+    }
+    return { target: (node.target ?? '').replace(/\$([0-9])/g, (_, num) => match[parseInt(num, 10)] ?? ''), error: null };
+  }
+
+  // Redirect matches whole path segments: /old matches /old and /old/page but not /older
+  const prefix = node.path;
+  const matches = uri === prefix || uri.startsWith(prefix.endsWith('/') ? prefix : prefix + '/');
+  if (!matches) {
+    return { target: null, error: null };
+  }
+  return { target: node.target === null ? '' : node.target + uri.slice(prefix.length), error: null };
+}
+
+/**
+ * Check whether processing must end after a pass instead of re-injecting
+ */
+function isTerminal(state: EvalState): boolean {
+  return state.hardStop || state.redirect !== null || !state.engineEnabled;
+}
+
+/**
+ * Prepare the state for the next per-directory pass over the ruleset.
+ * Mirrors an Apache internal redirect: the rewritten URL becomes the new request.
+ */
+function reinject(state: EvalState): void {
+  state.currentPath = state.currentPath.replace(/^\//, '');
+  state.env.REQUEST_URI = '/' + state.currentPath;
+  state.env.QUERY_STRING = state.queryString;
+
+  const { filename, pathInfo } = resolveRequestFilename(state.filesystem, state.documentRoot, state.currentPath);
+  state.env.REQUEST_FILENAME = filename;
+  state.env.SCRIPT_FILENAME = filename;
+  state.env.PATH_INFO = pathInfo;
+
+  // The internal redirect renames the previous request's environment with a REDIRECT_ prefix
+  const environment: Record<string, string> = {};
+  for (const [name, value] of Object.entries(state.environment)) {
+    environment['REDIRECT_' + name] = value;
   }
+  environment.REDIRECT_STATUS = '200';
+  state.environment = environment;
+
+  state.ruleCaptures = [];
+  state.condCaptures = [];
+  state.stopped = false;
+  state.rounds = 1;
+  state.engineEnabled = true;
+}
 
+/**
+ * Build the engine output from the final state
+ */
+function createOutput(
+  state: EvalState,
+  status: EngineStatus,
+  statusCode: number | null,
+  message: string | null,
+  reason: EngineReason | null,
+  trace: TraceLine[],
+  passes: EvaluationPass[]
+): EngineOutput {
   return {
     finalUrl: buildUrl(state.scheme, state.host, state.currentPath, state.queryString),
     status,
-    statusCode: state.redirect,
-    trace
+    statusCode,
+    message,
+    reason,
+    trace,
+    passes,
+    environment: { ...state.environment },
+    cookies: state.cookies
   };
 }
 
+/**
+ * Check the request and rules before evaluating them.
+ * Returns the output to end with, or null if evaluation can go ahead.
+ */
+function checkInput(input: EngineInput, files: RuleFile[], state: EvalState, config: EngineConfig): EngineOutput | null {
+  if (!state.host) {
+    return createOutput(state, 'error', 400, `Invalid URL: ${input.url}`, { code: 'invalid-url' }, [], []);
+  }
+
+  // Apache answers an overlong request line with 414 before any rule runs
+  if (input.url.length > config.maxUrlLength) {
+    return createOutput(state, 'limit-exceeded', 414,
+      `URL is ${input.url.length} characters long, more than the limit of ${config.maxUrlLength}`,
+      { code: 'url-too-long', limit: config.maxUrlLength, actual: input.url.length }, [], []);
+  }
+
+  const ruleCount = files.flatMap(file => flattenNodes(file.nodes)).filter(node => node.kind === 'RewriteRule').length;
+  if (ruleCount > config.maxRuleCount) {
+    return createOutput(state, 'limit-exceeded', null,
+      `Rules contain ${ruleCount} RewriteRule directives, more than the limit of ${config.maxRuleCount}`,
+      { code: 'too-many-rules', limit: config.maxRuleCount, actual: ruleCount }, [], []);
+  }
+
+  return null;
+}
+
+/**
+ * Main evaluation function
+ */
+export function evaluate(
+  input: EngineInput,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): EngineOutput {
+  const files = loadRuleFiles(input);
+  const state = initState(input, files, config);
+  const trace: TraceLine[] = [];
+  const passes: EvaluationPass[] = [];
+  const seenPaths = new Set<string>();
+
+  const rejected = checkInput(input, files, state, config);
+  if (rejected) {
+    return rejected;
+  }
+
+  const currentUrl = () => buildUrl(state.scheme, state.host, state.currentPath, state.queryString);
+  // Rules like ^(.*)$ $1$1 [N] can grow the URL without bound
+  const urlTooLong = (): EngineOutput | null => {
+    const length = currentUrl().length;
+    return length > config.maxUrlLength
+      ? createOutput(state, 'limit-exceeded', 500,
+        `Rewritten URL is ${length} characters long, more than the limit of ${config.maxUrlLength}`,
+        { code: 'url-too-long', limit: config.maxUrlLength, actual: length }, trace, passes)
+      : null;
+  };
+  let reason: PassReason = 'initial';
+  let passPath = '';
+  let passQuery = '';
+  // Server context rules do not depend on the path
+  const serverPlan = state.context === 'directory' ? null : planServerPass(files[0], state.virtualHost);
+  let plan = serverPlan ?? planPass(files, '');
+
+  for (;;) {
+    state.pass++;
+    state.iterations++;
+    passes.push({ pass: state.pass, reason, url: currentUrl() });
+
+    // Rounds started by [N] belong to the same pass for re-injection purposes
+    if (reason !== 'next') {
+      passPath = state.currentPath.replace(/^\//, '');
+      passQuery = state.queryString;
+      seenPaths.add(passPath);
+      plan = serverPlan ?? planPass(files, passPath);
+    }
+
+    runPass(plan, state, trace);
+    const rewrittenTooLong = urlTooLong();
+    if (rewrittenTooLong) {
+      return rewrittenTooLong;
+    }
+
+    if (state.restart && !isTerminal(state)) {
+      const limit = Math.min(state.nextLimit ?? config.maxIterations, config.maxIterations);
+      if (++state.rounds >= limit || state.iterations >= config.maxIterations) {
+        return createOutput(state, 'limit-exceeded', 500,
+          `Exceeded maximum number of rounds (${limit}) via the [N] flag`,
+          { code: limit < config.maxIterations ? 'next-limit' : 'max-iterations', limit }, trace, passes);
+      }
+
+      state.currentPath = state.currentPath.replace(/^\//, '');
+      state.restart = false;
+      state.stopped = false;
+      reason = 'next';
+      continue;
+    }
+
+    applyAliasRedirects(state, '/' + passPath, passQuery);
+    const redirectedTooLong = urlTooLong();
+    if (redirectedTooLong) {
+      return redirectedTooLong;
+    }
+
+    // Server context rules run once, at URL translation; only per-directory rewrites are re-injected
+    if (!input.reinject || isTerminal(state) || state.context !== 'directory') {
+      break;
+    }
+
+    // Apache ignores a rewrite that results in the URL it started with
+    const nextPath = state.currentPath.replace(/^\//, '');
+    if (nextPath === passPath) {
+      state.currentPath = passPath;
+      break;
+    }
+
+    if (seenPaths.has(nextPath)) {
+      return createOutput(state, 'loop-detected', 500,
+        `Rewrite loop detected: /${nextPath} was already processed in an earlier pass`, { code: 'rewrite-loop' }, trace, passes);
+    }
+
+    if (state.iterations >= config.maxIterations) {
+      return createOutput(state, 'loop-detected', 500,
+        `Request exceeded the limit of ${config.maxIterations} internal redirects`,
+        { code: 'max-iterations', limit: config.maxIterations }, trace, passes);
+    }
+
+    reinject(state);
+    reason = 'reinject';
+  }
+
+  // Determine final status
+  let status: EngineStatus = 'ok';
+  if (state.redirect !== null) {
+    status = 'redirect';
+  }
+
+  return createOutput(state, status, state.redirect, null, null, trace, passes);
+}
+
 /**
  * Apply rule flags to state
  */
@@ -549,6 +1595,13 @@ function applyRuleFlags(flags: RuleFlags, state: EvalState): void {
     state.stopped = true;
   }
 
+  // N flag: restart processing from the first rule
+  if (flags.next) {
+    state.restart = true;
+    state.nextLimit = flags.nextLimit;
+    state.stopped = true;
+  }
+
   // L flag: last rule
   if (flags.last) {
     state.stopped = true;
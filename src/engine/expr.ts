@@ -0,0 +1,722 @@
+/**
+ * ap_expr support for RewriteCond expr "..." conditions.
+ * Tokenizes and parses an expression into an ExprNode tree, and evaluates it
+ * against an ExprContext supplied by the evaluator.
+ */
+
+import { ExprNode, ExprWord } from './ast';
+
+/**
+ * Lookups an expression needs from the request being evaluated
+ */
+export interface ExprContext {
+  variable(name: string): string;     // %{NAME}
+  header(name: string): string;       // req(), http()
+  environment(name: string): string;  // env(), reqenv()
+  remoteAddr: string;                 // -R
+  fileTest(operator: string, path: string): boolean; // -d, -e, -f, -s, -L, -h, -F, -U, -A
+  fileSize(path: string): number;     // filesize()
+  match(regex: string, nocase: boolean, subject: string): RegExpExecArray | null; // =~ and !~
+}
+
+/**
+ * Result of evaluating an expression; captures come from the last successful =~ match
+ */
+export interface ExprResult {
+  value: boolean;
+  captures: string[];
+}
+
+type Token =
+  | { type: 'op'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'word'; word: ExprWord }
+  | { type: 'regex'; source: string; nocase: boolean }
+  | { type: 'eof' };
+
+// Longest operators first so '==' is not read as '=' followed by '='
+const PUNCTUATORS = ['&&', '||', '==', '!=', '=~', '!~', '<=', '>=', '<', '>', '=', '!', '(', ')', '{', '}', ',', '.'];
+
+const UNARY_OPERATORS = ['-n', '-z', '-T', '-R', '-d', '-e', '-f', '-s', '-L', '-h', '-F', '-U', '-A'];
+
+const BINARY_OPERATORS = [
+  '==', '=', '!=', '<', '<=', '>', '>=',
+  '-eq', '-ne', '-lt', '-le', '-gt', '-ge',
+  'eq', 'ne', 'lt', 'le', 'gt', 'ge',
+  '-ipmatch', '-strmatch', '-strcmatch', '-fnmatch'
+];
+
+const FUNCTIONS = [
+  'tolower', 'toupper', 'escape', 'unescape', 'base64', 'unbase64',
+  'req', 'http', 'reqenv', 'env', 'osenv', 'note', 'resp', 'filesize'
+];
+
+/**
+ * Parse an ap_expr expression. Returns an error message instead of throwing.
+ */
+export function parseExpression(source: string): { expression: ExprNode } | { error: string } {
+  try {
+    const tokens = tokenize(source);
+    let position = 0;
+
+    const peek = (): Token => tokens[position];
+    const next = (): Token => tokens[position++];
+    const isOp = (token: Token, value: string): boolean => token.type === 'op' && token.value === value;
+
+    const expect = (value: string): void => {
+      const token = next();
+      if (!isOp(token, value)) {
+        throw new Error(`Expected '${value}' but found ${describe(token)}`);
+      }
+    };
+
+    const parseWordAtom = (): ExprWord => {
+      const token = next();
+      if (token.type === 'word') {
+        return token.word;
+      }
+      if (token.type === 'ident' && isOp(peek(), '(')) {
+        const name = token.value.toLowerCase();
+        if (!FUNCTIONS.includes(name)) {
+          throw new Error(`Unknown function '${token.value}'`);
+        }
+        next();
+        const arg = parseWord();
+        expect(')');
+        return { kind: 'function', name, arg };
+      }
+      throw new Error(`Expected a string, variable or function but found ${describe(token)}`);
+    };
+
+    const parseWord = (): ExprWord => {
+      const parts = [parseWordAtom()];
+      while (isOp(peek(), '.')) {
+        next();
+        parts.push(parseWordAtom());
+      }
+      return parts.length === 1 ? parts[0] : { kind: 'concat', parts };
+    };
+
+    const parseComparison = (): ExprNode => {
+      const left = parseWord();
+      const token = next();
+      const operator = token.type === 'op' || token.type === 'ident' ? token.value : '';
+
+      if (operator === '=~' || operator === '!~') {
+        const regex = next();
+        if (regex.type !== 'regex') {
+          throw new Error(`Expected a regular expression after '${operator}'`);
+        }
+        return { kind: 'match', negated: operator === '!~', subject: left, regex: regex.source, nocase: regex.nocase };
+      }
+
+      if (operator === 'in' || operator === '-in') {
+        expect('{');
+        const list = [parseWord()];
+        while (isOp(peek(), ',')) {
+          next();
+          list.push(parseWord());
+        }
+        expect('}');
+        return { kind: 'in', subject: left, list };
+      }
+
+      if (BINARY_OPERATORS.includes(operator)) {
+        return { kind: 'binary', operator, left, right: parseWord() };
+      }
+
+      throw new Error(`Expected an operator but found ${describe(token)}`);
+    };
+
+    const parsePrimary = (): ExprNode => {
+      const token = peek();
+
+      if (isOp(token, '!')) {
+        next();
+        return { kind: 'not', operand: parsePrimary() };
+      }
+      if (isOp(token, '(')) {
+        next();
+        const expression = parseOr();
+        expect(')');
+        return expression;
+      }
+      if (token.type === 'ident' && (token.value === 'true' || token.value === 'false')) {
+        next();
+        return { kind: 'boolean', value: token.value === 'true' };
+      }
+      if (token.type === 'op' && UNARY_OPERATORS.includes(token.value)) {
+        next();
+        return { kind: 'unary', operator: token.value, operand: parseWord() };
+      }
+      return parseComparison();
+    };
+
+    const parseAnd = (): ExprNode => {
+      let left = parsePrimary();
+      while (isOp(peek(), '&&')) {
+        next();
+        left = { kind: 'and', left, right: parsePrimary() };
+      }
+      return left;
+    };
+
+    const parseOr = (): ExprNode => {
+      let left = parseAnd();
+      while (isOp(peek(), '||')) {
+        next();
+        left = { kind: 'or', left, right: parseAnd() };
+      }
+      return left;
+    };
+
+    const expression = parseOr();
+    if (peek().type !== 'eof') {
+      throw new Error(`Unexpected ${describe(peek())}`);
+    }
+    return { expression };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Describe a token for error messages
+ */
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'op':
+    case 'ident':
+      return `'${token.value}'`;
+    case 'word':
+      return 'a string';
+    case 'regex':
+      return 'a regular expression';
+    case 'eof':
+      return 'end of expression';
+  }
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // A regex always follows =~ or !~
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === 'op' && (previous.value === '=~' || previous.value === '!~')) {
+      const { token, end } = readRegex(source, i);
+      tokens.push(token);
+      i = end;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = findClosingQuote(source, i);
+      tokens.push({ type: 'word', word: parseInterpolated(source.slice(i + 1, end)) });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '%' && source[i + 1] === '{') {
+      const end = source.indexOf('}', i);
+      if (end === -1) {
+        throw new Error("Unterminated variable '%{'");
+      }
+      tokens.push({ type: 'word', word: parseVariable(source.slice(i + 2, end)) });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '$' && /[0-9]/.test(source[i + 1] ?? '')) {
+      tokens.push({ type: 'word', word: { kind: 'backref', index: parseInt(source[i + 1], 10) } });
+      i += 2;
+      continue;
+    }
+
+    const digits = /^[0-9]+/.exec(source.slice(i));
+    if (digits) {
+      tokens.push({ type: 'word', word: { kind: 'text', text: digits[0] } });
+      i += digits[0].length;
+      continue;
+    }
+
+    const dashOperator = /^-[A-Za-z]+/.exec(source.slice(i));
+    if (dashOperator) {
+      tokens.push({ type: 'op', value: dashOperator[0] });
+      i += dashOperator[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'ident', value: identifier[0] });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(op => source.startsWith(op, i));
+    if (punctuator) {
+      tokens.push({ type: 'op', value: punctuator });
+      i += punctuator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${char}'`);
+  }
+
+  tokens.push({ type: 'eof' });
+  return tokens;
+}
+
+/**
+ * Find the quote closing the string that starts at `start`, honouring backslash escapes
+ */
+function findClosingQuote(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i;
+    }
+  }
+  throw new Error(`Unterminated string starting at ${source.slice(start, start + 10)}`);
+}
+
+/**
+ * Read /regex/flags or m#regex#flags
+ */
+function readRegex(source: string, start: number): { token: Token; end: number } {
+  let delimiter = source[start];
+  let i = start + 1;
+
+  if (delimiter === 'm' && /[^\sA-Za-z0-9]/.test(source[i] ?? '')) {
+    delimiter = source[i];
+    i++;
+  } else if (delimiter !== '/') {
+    throw new Error('Expected a regular expression like /pattern/');
+  }
+
+  let pattern = '';
+  for (; i < source.length && source[i] !== delimiter; i++) {
+    if (source[i] === '\\' && source[i + 1] === delimiter) {
+      i++;
+      pattern += delimiter;
+    } else if (source[i] === '\\' && i + 1 < source.length) {
+      pattern += source[i] + source[i + 1];
+      i++;
+    } else {
+      pattern += source[i];
+    }
+  }
+
+  if (i >= source.length) {
+    throw new Error('Unterminated regular expression');
+  }
+
+  const flags = /^[A-Za-z]*/.exec(source.slice(i + 1))?.[0] ?? '';
+  try {
+    new RegExp(pattern);
+  } catch {
+    throw new Error(`Invalid regular expression /${pattern}/`);
+  }
+
+  return {
+    token: { type: 'regex', source: pattern, nocase: flags.toLowerCase().includes('i') },
+    end: i + 1 + flags.length
+  };
+}
+
+/**
+ * Parse the inside of %{...}: a variable, or a function call like %{HTTP:Accept}
+ */
+function parseVariable(content: string): ExprWord {
+  const colonIndex = content.indexOf(':');
+  if (colonIndex === -1) {
+    return { kind: 'variable', name: content };
+  }
+
+  const name = content.slice(0, colonIndex).toLowerCase();
+  if (!FUNCTIONS.includes(name)) {
+    throw new Error(`Unknown function '${content.slice(0, colonIndex)}'`);
+  }
+  return { kind: 'function', name, arg: { kind: 'text', text: content.slice(colonIndex + 1) } };
+}
+
+/**
+ * Parse the content of a quoted string, expanding %{...} and $N
+ */
+function parseInterpolated(content: string): ExprWord {
+  const parts: ExprWord[] = [];
+  let text = '';
+
+  const flushText = () => {
+    if (text) {
+      parts.push({ kind: 'text', text });
+      text = '';
+    }
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (char === '\\' && i + 1 < content.length) {
+      text += content[++i];
+    } else if (char === '%' && content[i + 1] === '{') {
+      const end = content.indexOf('}', i);
+      if (end === -1) {
+        throw new Error("Unterminated variable '%{'");
+      }
+      flushText();
+      parts.push(parseVariable(content.slice(i + 2, end)));
+      i = end;
+    } else if (char === '$' && /[0-9]/.test(content[i + 1] ?? '')) {
+      flushText();
+      parts.push({ kind: 'backref', index: parseInt(content[++i], 10) });
+    } else {
+      text += char;
+    }
+  }
+
+  flushText();
+  if (parts.length === 0) {
+    return { kind: 'text', text: '' };
+  }
+  return parts.length === 1 ? parts[0] : { kind: 'concat', parts };
+}
+
+/**
+ * Evaluate a parsed expression
+ */
+export function evaluateExpression(expression: ExprNode, context: ExprContext): ExprResult {
+  const captures: string[] = [];
+  const value = evaluateNode(expression, context, captures);
+  return { value, captures: captures.slice(1) };
+}
+
+function evaluateNode(node: ExprNode, context: ExprContext, captures: string[]): boolean {
+  switch (node.kind) {
+    case 'boolean':
+      return node.value;
+    case 'not':
+      return !evaluateNode(node.operand, context, captures);
+    case 'and':
+      return evaluateNode(node.left, context, captures) && evaluateNode(node.right, context, captures);
+    case 'or':
+      return evaluateNode(node.left, context, captures) || evaluateNode(node.right, context, captures);
+    case 'unary':
+      return evaluateUnary(node.operator, evaluateWord(node.operand, context, captures), context);
+    case 'binary':
+      return evaluateBinary(
+        node.operator,
+        evaluateWord(node.left, context, captures),
+        evaluateWord(node.right, context, captures)
+      );
+    case 'match': {
+      const subject = evaluateWord(node.subject, context, captures);
+      const match = context.match(node.regex, node.nocase, subject);
+      if (match) {
+        captures.length = 0;
+        captures.push(...match.map(group => group ?? ''));
+      }
+      return node.negated ? match === null : match !== null;
+    }
+    case 'in': {
+      const subject = evaluateWord(node.subject, context, captures);
+      return node.list.some(item => evaluateWord(item, context, captures) === subject);
+    }
+  }
+}
+
+function evaluateWord(word: ExprWord, context: ExprContext, captures: string[]): string {
+  switch (word.kind) {
+    case 'text':
+      return word.text;
+    case 'variable':
+      return context.variable(word.name);
+    case 'backref':
+      return captures[word.index] ?? '';
+    case 'concat':
+      return word.parts.map(part => evaluateWord(part, context, captures)).join('');
+    case 'function':
+      return callFunction(word.name, evaluateWord(word.arg, context, captures), context);
+  }
+}
+
+function callFunction(name: string, arg: string, context: ExprContext): string {
+  switch (name) {
+    case 'tolower':
+      return arg.toLowerCase();
+    case 'toupper':
+      return arg.toUpperCase();
+    case 'escape':
+      return encodeURIComponent(arg).replace(/%2F/g, '/');
+    case 'unescape':
+      try {
+        return decodeURIComponent(arg);
+      } catch {
+        return arg;
+      }
+    case 'base64':
+      return encodeBase64(arg);
+    case 'unbase64':
+      return decodeBase64(arg);
+    case 'req':
+    case 'http':
+      return context.header(arg);
+    case 'reqenv':
+    case 'env':
+      return context.environment(arg);
+    case 'filesize':
+      return String(context.fileSize(arg));
+    default:
+      // osenv, note and resp have nothing to look at offline
+      return '';
+  }
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64-encode the UTF-8 bytes of a string
+ */
+function encodeBase64(value: string): string {
+  const bytes = Array.from(encodeURIComponent(value).replace(/%([0-9A-F]{2})|./g, (char, hex) =>
+    hex ? String.fromCharCode(parseInt(hex, 16)) : char
+  ), char => char.charCodeAt(0));
+
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return result;
+}
+
+/**
+ * Decode base64 into a UTF-8 string; invalid input decodes to an empty string
+ */
+function decodeBase64(value: string): string {
+  const clean = value.replace(/=+$/, '');
+  if (/[^A-Za-z0-9+/]/.test(clean)) {
+    return '';
+  }
+
+  let encoded = '';
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = clean.slice(i, i + 4).split('').reduce(
+      (acc, char) => (acc << 6) | BASE64_ALPHABET.indexOf(char), 0
+    ) << (6 * (4 - Math.min(4, clean.length - i)));
+    const byteCount = Math.min(3, Math.floor((clean.length - i) * 6 / 8));
+    for (let b = 0; b < byteCount; b++) {
+      encoded += '%' + ((chunk >> (16 - b * 8)) & 0xff).toString(16).padStart(2, '0');
+    }
+  }
+
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return '';
+  }
+}
+
+function evaluateUnary(operator: string, operand: string, context: ExprContext): boolean {
+  switch (operator) {
+    case '-n':
+      return operand !== '';
+    case '-z':
+      return operand === '';
+    case '-T':
+      return !['', '0', 'off', 'false', 'no'].includes(operand.toLowerCase());
+    case '-R':
+      return ipMatch(context.remoteAddr, operand);
+    default:
+      return context.fileTest(operator, operand);
+  }
+}
+
+function evaluateBinary(operator: string, left: string, right: string): boolean {
+  const leftInt = parseInt(left, 10) || 0;
+  const rightInt = parseInt(right, 10) || 0;
+
+  switch (operator.replace(/^-(?=[a-z]{2}$)/, '')) {
+    case '==':
+    case '=':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case 'eq':
+      return leftInt === rightInt;
+    case 'ne':
+      return leftInt !== rightInt;
+    case 'lt':
+      return leftInt < rightInt;
+    case 'le':
+      return leftInt <= rightInt;
+    case 'gt':
+      return leftInt > rightInt;
+    case 'ge':
+      return leftInt >= rightInt;
+    case '-ipmatch':
+      return ipMatch(left, right);
+    case '-strmatch':
+      return globToRegExp(right, false, false).test(left);
+    case '-strcmatch':
+      return globToRegExp(right, true, false).test(left);
+    case '-fnmatch':
+      return globToRegExp(right, false, true).test(left);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a wildcard pattern (*, ?, [...]) to a regex.
+ * With `pathname`, wildcards do not match '/' (like fnmatch with FNM_PATHNAME).
+ */
+export function globToRegExp(pattern: string, nocase: boolean, pathname: boolean): RegExp {
+  const any = pathname ? '[^/]' : '.';
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      source += any + '*';
+    } else if (char === '?') {
+      source += any;
+    } else if (char === '[' && pattern.indexOf(']', i + 1) !== -1) {
+      const end = pattern.indexOf(']', i + 1);
+      source += '[' + pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+      i = end;
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, nocase ? 'i' : '');
+}
+
+/**
+ * Parse an IPv4 address into bytes; partial addresses like "10.1" are allowed
+ */
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length > 4 || parts.some(part => !/^[0-9]{1,3}$/.test(part) || parseInt(part, 10) > 255)) {
+    return null;
+  }
+  return parts.map(part => parseInt(part, 10));
+}
+
+/**
+ * Parse an IPv6 address into 16 bytes
+ */
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) {
+    return null;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (half: string): number[] | null => {
+    if (half === '') return [];
+    const groups: number[] = [];
+    const pieces = half.split(':');
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i];
+      if (i === pieces.length - 1 && piece.includes('.')) {
+        const ipv4 = parseIPv4(piece);
+        if (!ipv4 || ipv4.length !== 4) return null;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9A-Fa-f]{1,4}$/.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Check whether an IP address is inside a network given as an address,
+ * a partial IPv4 address, address/prefix-length or address/netmask
+ */
+export function ipMatch(address: string, network: string): boolean {
+  const [base, mask] = network.trim().split('/');
+
+  let addressBytes = parseIPv4(address.trim());
+  let networkBytes = parseIPv4(base);
+  if (addressBytes?.length !== 4 || !networkBytes) {
+    addressBytes = parseIPv6(address.trim());
+    networkBytes = parseIPv6(base);
+  }
+  if (!addressBytes || !networkBytes) {
+    return false;
+  }
+
+  // A partial IPv4 network like "10.1" covers its given octets
+  const prefixBits = networkBytes.length * 8;
+  const networkPadded = [...networkBytes, ...new Array<number>(addressBytes.length - networkBytes.length).fill(0)];
+
+  let maskBytes: number[];
+  if (mask === undefined) {
+    maskBytes = bitsToMask(prefixBits, addressBytes.length);
+  } else if (/^[0-9]+$/.test(mask)) {
+    maskBytes = bitsToMask(parseInt(mask, 10), addressBytes.length);
+  } else {
+    const parsed = addressBytes.length === 4 ? parseIPv4(mask) : parseIPv6(mask);
+    if (!parsed || parsed.length !== addressBytes.length) {
+      return false;
+    }
+    maskBytes = parsed;
+  }
+
+  return addressBytes.every((byte, i) => (byte & maskBytes[i]) === (networkPadded[i] & maskBytes[i]));
+}
+
+function bitsToMask(bits: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => {
+    const remaining = Math.max(0, Math.min(8, bits - i * 8));
+    return (0xff << (8 - remaining)) & 0xff;
+  });
+}
@@ -0,0 +1,185 @@
+/**
+ * Filesystem model for RewriteCond file tests (-f, -d, -s, -l, ...)
+ * and REQUEST_FILENAME computation.
+ * Lookups go through a FileSystemProvider so the engine never touches a real disk itself.
+ */
+
+import { FileTestOperator } from './ast';
+import { FileStat, FileSystemProvider, VirtualFileEntry } from '../shared/types';
+
+/**
+ * Default document root when none is supplied
+ */
+export const DEFAULT_DOCUMENT_ROOT = '/var/www/html';
+
+/**
+ * Maximum number of symlinks followed before giving up (like ELOOP)
+ */
+const MAX_SYMLINK_DEPTH = 16;
+
+/**
+ * Normalize an absolute path: collapse duplicate slashes, resolve . and .., drop trailing slash
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return '/' + segments.join('/');
+}
+
+/**
+ * Join a document root and a URL path into a filesystem path
+ */
+export function joinPath(root: string, path: string): string {
+  return normalizePath(root + '/' + path);
+}
+
+/**
+ * Create a provider backed by a list of virtual entries.
+ * Entry paths are relative to the document root; parent directories are implied.
+ */
+export function createVirtualFileSystem(
+  entries: VirtualFileEntry[],
+  documentRoot: string = DEFAULT_DOCUMENT_ROOT
+): FileSystemProvider {
+  const files = new Map<string, FileStat>();
+
+  const addDirectory = (path: string) => {
+    if (!files.has(path)) {
+      files.set(path, { type: 'directory', size: 4096, executable: true });
+    }
+  };
+
+  addDirectory(normalizePath(documentRoot));
+
+  for (const entry of entries) {
+    const path = joinPath(documentRoot, entry.path);
+
+    // Every ancestor of an entry is a directory
+    let parent = path.slice(0, path.lastIndexOf('/'));
+    while (parent) {
+      addDirectory(parent);
+      parent = parent.slice(0, parent.lastIndexOf('/'));
+    }
+
+    if (entry.type === 'directory') {
+      addDirectory(path);
+    } else if (entry.type === 'symlink') {
+      const target = entry.target ?? '';
+      files.set(path, {
+        type: 'symlink',
+        size: target.length,
+        executable: false,
+        target: target.startsWith('/') ? target : joinPath(path.slice(0, path.lastIndexOf('/')), target)
+      });
+    } else {
+      files.set(path, { type: 'file', size: entry.size ?? 0, executable: entry.executable ?? false });
+    }
+  }
+
+  return {
+    lstat(path: string): FileStat | null {
+      return files.get(normalizePath(path)) ?? null;
+    }
+  };
+}
+
+/**
+ * Stat a path, following symlinks
+ */
+export function statPath(provider: FileSystemProvider, path: string): FileStat | null {
+  let current = provider.lstat(path);
+
+  for (let depth = 0; current?.type === 'symlink'; depth++) {
+    if (depth >= MAX_SYMLINK_DEPTH || !current.target) {
+      return null;
+    }
+    current = provider.lstat(current.target);
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate a RewriteCond file test against a path.
+ * The message describes what was found, for the trace.
+ */
+export function evaluateFileTest(
+  operator: FileTestOperator,
+  path: string,
+  provider: FileSystemProvider,
+  documentRoot: string = DEFAULT_DOCUMENT_ROOT
+): { met: boolean; message: string } {
+  switch (operator) {
+    case '-d': {
+      const stat = statPath(provider, path);
+      const met = stat?.type === 'directory';
+      return { met, message: `'${path}' ${met ? 'is' : 'is not'} a directory` };
+    }
+    case '-f':
+    case '-F': {
+      const stat = statPath(provider, path);
+      const met = stat?.type === 'file';
+      return { met, message: `'${path}' ${met ? 'is' : 'is not'} a regular file` };
+    }
+    case '-s': {
+      const stat = statPath(provider, path);
+      const met = stat?.type === 'file' && stat.size > 0;
+      return {
+        met,
+        message: stat?.type === 'file'
+          ? `'${path}' is a regular file of ${stat.size} bytes`
+          : `'${path}' is not a regular file`
+      };
+    }
+    case '-l':
+    case '-L':
+    case '-h': {
+      const met = provider.lstat(path)?.type === 'symlink';
+      return { met, message: `'${path}' ${met ? 'is' : 'is not'} a symbolic link` };
+    }
+    case '-x': {
+      const stat = statPath(provider, path);
+      const met = stat !== null && stat.executable;
+      return { met, message: `'${path}' ${met ? 'is' : 'is not'} executable` };
+    }
+    case '-U': {
+      // The test string is a URL-path; it exists if it maps to an existing file or directory
+      const filePath = joinPath(documentRoot, path.split('?')[0]);
+      const met = statPath(provider, filePath) !== null;
+      return { met, message: `URL '${path}' ${met ? 'maps' : 'does not map'} to an existing resource` };
+    }
+  }
+}
+
+/**
+ * Map a URL-path to REQUEST_FILENAME and PATH_INFO the way Apache's directory walk does:
+ * the walk stops at the first segment that is a file or does not exist,
+ * and the remaining segments become the path info.
+ */
+export function resolveRequestFilename(
+  provider: FileSystemProvider,
+  documentRoot: string,
+  urlPath: string
+): { filename: string; pathInfo: string } {
+  const segments = urlPath.split('/').filter(segment => segment !== '');
+  let filename = normalizePath(documentRoot);
+
+  for (let i = 0; i < segments.length; i++) {
+    filename = joinPath(filename, segments[i]);
+    const stat = statPath(provider, filename);
+
+    if (stat?.type !== 'directory') {
+      const rest = segments.slice(i + 1);
+      return { filename, pathInfo: rest.length > 0 ? '/' + rest.join('/') : '' };
+    }
+  }
+
+  return { filename, pathInfo: '' };
+}
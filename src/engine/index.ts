@@ -9,6 +9,8 @@ export * from '../shared/types';
 
 // Re-export evaluate from evaluator
 export { evaluate } from './evaluator';
+export { DEFAULT_DOCUMENT_ROOT } from './filesystem';
+export { DEFAULT_MODULES } from './modules';
 
 import { evaluate as evaluateImpl } from './evaluator';
 import { EngineInput, EngineOutput, EngineConfig, DEFAULT_ENGINE_CONFIG } from '../shared/types';
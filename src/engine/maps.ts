@@ -0,0 +1,110 @@
+/**
+ * RewriteMap support: loading map sources and answering ${map:key|default} lookups.
+ * Map files are supplied by the caller, so the engine never reads from disk itself.
+ */
+
+import { RewriteMapDirective, RewriteMapType } from './ast';
+
+/**
+ * A declared map, ready for lookups
+ */
+export interface RewriteMap {
+  name: string;
+  type: RewriteMapType;
+  source: string;
+  entries: Map<string, string> | null; // Key/value pairs for txt, rnd and dbm maps
+  error: string | null;                // Why lookups cannot be answered
+}
+
+const INTERNAL_FUNCTIONS: Record<string, (key: string) => string> = {
+  tolower: key => key.toLowerCase(),
+  toupper: key => key.toUpperCase(),
+  escape: key => encodeURIComponent(key).replace(/%2F/gi, '/'),
+  unescape: key => {
+    try {
+      return decodeURIComponent(key);
+    } catch {
+      return key;
+    }
+  }
+};
+
+/**
+ * Parse a txt/rnd map file: one "key value" pair per line, lines starting with # are comments.
+ * Lines starting with whitespace are ignored as well.
+ * A # elsewhere is part of the line, e.g. a fragment in "faq /help#faq".
+ * The first occurrence of a key wins, as Apache scans the file top to bottom.
+ */
+export function parseMapFile(content: string): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^[#\s]/.test(line)) {
+      continue;
+    }
+    const [key, value] = line.split(/\s+/);
+    if (key && value !== undefined && !entries.has(key)) {
+      entries.set(key, value);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Load a RewriteMap declaration.
+ * `files` holds the contents of map files keyed by the MapSource as written in the directive.
+ * dbm maps are read in their text source format (the input to httxt2dbm).
+ */
+export function loadRewriteMap(node: RewriteMapDirective, files: Record<string, string>): RewriteMap {
+  const map: RewriteMap = { name: node.name, type: node.mapType, source: node.source, entries: null, error: null };
+
+  switch (node.mapType) {
+    case 'txt':
+    case 'rnd':
+    case 'dbm': {
+      const content = files[node.source];
+      if (content === undefined) {
+        map.error = `Map file not found: ${node.source}`;
+      } else {
+        map.entries = parseMapFile(content);
+      }
+      break;
+    }
+    case 'int':
+      if (!INTERNAL_FUNCTIONS[node.source]) {
+        map.error = `Unknown internal map function: ${node.source}`;
+      }
+      break;
+    default:
+      map.error = `Map type '${node.mapType}' is not supported offline`;
+  }
+
+  return map;
+}
+
+/**
+ * Look up a key in a map. Returns null if the key is not found.
+ * rnd values are split at '|' and one alternative is picked at random.
+ */
+export function lookupRewriteMap(map: RewriteMap, key: string, random: () => number = Math.random): string | null {
+  if (map.error) {
+    return null;
+  }
+
+  if (map.type === 'int') {
+    return INTERNAL_FUNCTIONS[map.source](key);
+  }
+
+  const value = map.entries?.get(key);
+  if (value === undefined) {
+    return null;
+  }
+
+  if (map.type === 'rnd') {
+    const alternatives = value.split('|');
+    return alternatives[Math.floor(random() * alternatives.length)];
+  }
+
+  return value;
+}
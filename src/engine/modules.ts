@@ -0,0 +1,26 @@
+/**
+ * Apache modules assumed to be loaded, for <IfModule> sections.
+ */
+
+/**
+ * Modules of a stock Apache 2.4 install with mod_rewrite enabled
+ */
+export const DEFAULT_MODULES: readonly string[] = [
+  'core', 'http', 'so', 'mpm_event', 'access_compat', 'alias', 'auth_basic', 'authn_core', 'authn_file',
+  'authz_core', 'authz_host', 'authz_user', 'autoindex', 'deflate', 'dir', 'env', 'filter', 'headers',
+  'mime', 'negotiation', 'reqtimeout', 'rewrite', 'setenvif', 'status'
+];
+
+/**
+ * Reduce the spellings <IfModule> accepts (mod_rewrite.c, rewrite_module, mod_rewrite) to one name
+ */
+export function normalizeModuleName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.c$/, '').replace(/^mod_/, '').replace(/_module$/, '');
+}
+
+/**
+ * Build the set of loaded modules, by normalized name
+ */
+export function createModuleSet(modules: readonly string[] = DEFAULT_MODULES): Set<string> {
+  return new Set(modules.map(normalizeModuleName));
+}
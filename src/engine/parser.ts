@@ -10,35 +10,78 @@ import {
   RewriteBaseDirective,
   RewriteCondDirective,
   RewriteRuleDirective,
+  RewriteMapDirective,
+  RewriteMapType,
+  RewriteOption,
+  RewriteOptionsDirective,
+  RedirectDirective,
+  ServerNameDirective,
+  ContainerNode,
+  ContainerTest,
   ParseErrorNode,
   CondFlags,
+  FlagDiagnostic,
+  CondPattern,
+  FileTestOperator,
+  IntegerCompareOperator,
+  StringCompareOperator,
   RuleFlags,
   defaultCondFlags,
   defaultRuleFlags
 } from './ast';
+import { parseExpression } from './expr';
+import { translatePcre } from './pcre';
+import { LogicalLine, readLogicalLines, splitRewriteArgs, splitWords } from './tokenizer';
 
 /**
- * Parse htaccess content into an AST
+ * Parse htaccess content into an AST.
+ * Lines continued with a trailing backslash become one node, numbered by their first line.
+ * Lines inside a container section become children of its Container node.
  */
 export function parse(content: string): HtaccessDocument {
-  const lines = content.split(/\r?\n/);
   const nodes: AstNode[] = [];
+  const openContainers: ContainerNode[] = [];
+
+  for (const line of readLogicalLines(content)) {
+    const { rawLine, lineNo } = line;
+    const current = openContainers[openContainers.length - 1];
+    const siblings = current ? current.children : nodes;
+
+    // Closing tag: ends the innermost open container
+    const closing = line.text.trim().match(/^<\/([A-Za-z]+)\s*>$/);
+    if (closing) {
+      if (current && current.name.toLowerCase() === closing[1].toLowerCase()) {
+        current.end = { sourceLineNo: lineNo, rawLine };
+        openContainers.pop();
+      } else {
+        siblings.push({
+          kind: 'ParseError',
+          sourceLineNo: lineNo,
+          rawLine,
+          message: current
+            ? `Expected </${current.name}> but found </${closing[1]}>`
+            : `Unexpected </${closing[1]}> without opening tag`
+        });
+      }
+      continue;
+    }
 
-  for (let i = 0; i < lines.length; i++) {
-    const rawLine = lines[i];
-    const lineNo = i + 1;
-    const node = parseLine(rawLine, lineNo);
-    nodes.push(node);
+    const node = parseLine(line);
+    siblings.push(node);
+    if (node.kind === 'Container') {
+      openContainers.push(node);
+    }
   }
 
   return { nodes };
 }
 
 /**
- * Parse a single line into an AST node
+ * Parse a single logical line into an AST node
  */
-function parseLine(rawLine: string, lineNo: number): AstNode {
-  const trimmed = rawLine.trim();
+function parseLine(line: LogicalLine): AstNode {
+  const { rawLine, lineNo } = line;
+  const trimmed = line.text.trim();
 
   // Blank line
   if (trimmed === '') {
@@ -55,10 +98,89 @@ function parseLine(rawLine: string, lineNo: number): AstNode {
     };
   }
 
+  // Container opening tag
+  const container = trimmed.match(/^<([A-Za-z]+)(?:\s+(.*))?>$/);
+  if (container) {
+    return parseContainer(rawLine, lineNo, container[1], container[2]?.trim() ?? '');
+  }
+
   // Try to parse as directive
   return parseDirective(rawLine, lineNo, trimmed);
 }
 
+/**
+ * Remove one pair of surrounding quotes
+ */
+function unquote(value: string): string {
+  const match = value.match(/^"(.*)"$/) ?? value.match(/^'(.*)'$/);
+  return match ? match[1] : value;
+}
+
+/**
+ * Parse a container opening tag such as <IfModule mod_rewrite.c> or <If "expr">
+ */
+function parseContainer(rawLine: string, lineNo: number, name: string, args: string): ContainerNode {
+  return {
+    kind: 'Container',
+    sourceLineNo: lineNo,
+    rawLine,
+    name,
+    args,
+    test: parseContainerTest(name, args),
+    children: [],
+    end: null
+  };
+}
+
+/**
+ * Work out when a container's contents apply from its name and arguments
+ */
+function parseContainerTest(name: string, args: string): ContainerTest {
+  switch (name.toLowerCase()) {
+    case 'ifmodule': {
+      const negated = args.startsWith('!');
+      const module = (negated ? args.slice(1) : args).trim();
+      if (!module) {
+        return { type: 'invalid', message: 'IfModule requires a module name' };
+      }
+      return { type: 'module', module, negated };
+    }
+    case 'if':
+    case 'elseif': {
+      const result = parseExpression(unquote(args));
+      if ('error' in result) {
+        return { type: 'invalid', message: `Invalid expression: ${result.error}` };
+      }
+      return { type: 'expr', expression: result.expression };
+    }
+    case 'else':
+      return { type: 'else' };
+    case 'virtualhost': {
+      const addresses = splitWords(args);
+      if (addresses.length === 0) {
+        return { type: 'invalid', message: 'VirtualHost requires an address' };
+      }
+      return { type: 'vhost', addresses };
+    }
+    case 'files':
+    case 'filesmatch': {
+      const tilde = args.startsWith('~');
+      const regex = tilde || name.toLowerCase() === 'filesmatch';
+      const pattern = unquote((tilde ? args.slice(1) : args).trim());
+      if (!pattern) {
+        return { type: 'invalid', message: `${name} requires a file name or pattern` };
+      }
+      const regexError = regex ? checkRegex(pattern) : null;
+      if (regexError) {
+        return { type: 'invalid', message: regexError };
+      }
+      return { type: 'files', pattern, regex };
+    }
+    default:
+      return { type: 'unsupported' };
+  }
+}
+
 /**
  * Parse a directive line
  */
@@ -82,6 +204,18 @@ function parseDirective(rawLine: string, lineNo: number, trimmed: string): AstNo
       return parseRewriteCond(rawLine, lineNo, args);
     case 'rewriterule':
       return parseRewriteRule(rawLine, lineNo, args);
+    case 'rewritemap':
+      return parseRewriteMap(rawLine, lineNo, args);
+    case 'rewriteoptions':
+      return parseRewriteOptions(rawLine, lineNo, args);
+    case 'redirect':
+    case 'redirectmatch':
+    case 'redirectpermanent':
+    case 'redirecttemp':
+      return parseRedirect(rawLine, lineNo, directiveName, args);
+    case 'servername':
+    case 'serveralias':
+      return parseServerName(rawLine, lineNo, directiveName, args);
     default:
       return {
         kind: 'Unknown',
@@ -121,7 +255,8 @@ function parseRewriteEngine(rawLine: string, lineNo: number, args: string): Rewr
  * Parse RewriteBase directive
  */
 function parseRewriteBase(rawLine: string, lineNo: number, args: string): RewriteBaseDirective | ParseErrorNode {
-  if (!args) {
+  const [base] = splitWords(args);
+  if (!base) {
     return {
       kind: 'ParseError',
       sourceLineNo: lineNo,
@@ -134,17 +269,218 @@ function parseRewriteBase(rawLine: string, lineNo: number, args: string): Rewrit
     kind: 'RewriteBase',
     sourceLineNo: lineNo,
     rawLine,
-    base: args
+    base
   };
 }
 
+const REWRITE_MAP_TYPES: RewriteMapType[] = ['txt', 'rnd', 'int', 'dbm', 'prg', 'dbd', 'fastdbd'];
+
+/**
+ * Parse RewriteMap directive
+ */
+function parseRewriteMap(rawLine: string, lineNo: number, args: string): RewriteMapDirective | ParseErrorNode {
+  // RewriteMap MapName MapType:MapSource [MapTypeOptions]
+  const match = args.match(/^(\S+)\s+([A-Za-z]+)(?:=[^:\s]+)?:(\S+)/);
+  if (!match) {
+    return {
+      kind: 'ParseError',
+      sourceLineNo: lineNo,
+      rawLine,
+      message: 'RewriteMap requires MapName and MapType:MapSource'
+    };
+  }
+
+  const [, name, type, source] = match;
+  const mapType = REWRITE_MAP_TYPES.find(t => t === type.toLowerCase());
+  if (!mapType) {
+    return {
+      kind: 'ParseError',
+      sourceLineNo: lineNo,
+      rawLine,
+      message: `Invalid RewriteMap type: ${type}`
+    };
+  }
+
+  return {
+    kind: 'RewriteMap',
+    sourceLineNo: lineNo,
+    rawLine,
+    name,
+    mapType,
+    source
+  };
+}
+
+/**
+ * Parse ServerName and ServerAlias directives
+ */
+function parseServerName(
+  rawLine: string,
+  lineNo: number,
+  directive: string,
+  args: string
+): ServerNameDirective | ParseErrorNode {
+  const names = splitWords(args);
+  if (names.length === 0 || (directive.toLowerCase() === 'servername' && names.length > 1)) {
+    return {
+      kind: 'ParseError',
+      sourceLineNo: lineNo,
+      rawLine,
+      message: names.length === 0 ? `${directive} requires a host name` : `${directive} takes one host name`
+    };
+  }
+
+  return {
+    kind: 'ServerName',
+    sourceLineNo: lineNo,
+    rawLine,
+    directive,
+    names
+  };
+}
+
+const REWRITE_OPTIONS: RewriteOption[] = [
+  'Inherit',
+  'InheritBefore',
+  'InheritDown',
+  'InheritDownBefore',
+  'IgnoreInherit',
+  'AllowNoSlash',
+  'AllowAnyURI',
+  'MergeBase',
+  'IgnoreContextInfo',
+  'LegacyPrefixDocRoot',
+  'LongURLOptimization'
+];
+
+/**
+ * Parse RewriteOptions directive
+ */
+function parseRewriteOptions(rawLine: string, lineNo: number, args: string): RewriteOptionsDirective | ParseErrorNode {
+  const options: RewriteOption[] = [];
+
+  for (const word of splitWords(args)) {
+    const option = REWRITE_OPTIONS.find(o => o.toLowerCase() === word.toLowerCase());
+    if (!option) {
+      return {
+        kind: 'ParseError',
+        sourceLineNo: lineNo,
+        rawLine,
+        message: `Invalid RewriteOptions option: ${word}`
+      };
+    }
+    options.push(option);
+  }
+
+  if (options.length === 0) {
+    return { kind: 'ParseError', sourceLineNo: lineNo, rawLine, message: 'RewriteOptions requires an option' };
+  }
+
+  return {
+    kind: 'RewriteOptions',
+    sourceLineNo: lineNo,
+    rawLine,
+    options
+  };
+}
+
+const REDIRECT_STATUS_KEYWORDS: Record<string, number> = {
+  permanent: 301,
+  temp: 302,
+  seeother: 303,
+  gone: 410
+};
+
+/**
+ * Parse the mod_alias redirect directives:
+ * Redirect [status] URL-path URL, RedirectMatch [status] regex URL,
+ * RedirectPermanent URL-path URL and RedirectTemp URL-path URL
+ */
+function parseRedirect(
+  rawLine: string,
+  lineNo: number,
+  directive: string,
+  args: string
+): RedirectDirective | ParseErrorNode {
+  const error = (message: string): ParseErrorNode => ({ kind: 'ParseError', sourceLineNo: lineNo, rawLine, message });
+  const parts = splitWords(args);
+  const name = directive.toLowerCase();
+  const regex = name === 'redirectmatch';
+
+  let status = 302;
+  if (name === 'redirectpermanent') {
+    status = 301;
+  } else if (name !== 'redirecttemp' && parts.length > 0) {
+    const keyword = parts[0].toLowerCase();
+    if (REDIRECT_STATUS_KEYWORDS[keyword] !== undefined) {
+      status = REDIRECT_STATUS_KEYWORDS[keyword];
+      parts.shift();
+    } else if (/^\d{3}$/.test(keyword)) {
+      status = parseInt(keyword, 10);
+      parts.shift();
+    }
+  }
+
+  const [path, target] = parts;
+  if (!path) {
+    return error(`${directive} requires a ${regex ? 'regex' : 'URL-path'}`);
+  }
+  if (parts.length > 2) {
+    return error(`${directive} takes at most a status, a ${regex ? 'regex' : 'URL-path'} and a URL`);
+  }
+
+  const isRedirectStatus = status >= 300 && status < 400;
+  if (isRedirectStatus && target === undefined) {
+    return error(`${directive} with status ${status} requires a target URL`);
+  }
+  if (!isRedirectStatus && target !== undefined) {
+    return error(`Redirect URL not valid for status ${status}`);
+  }
+  // RedirectMatch targets may start with a backreference
+  if (!regex && target !== undefined && !target.startsWith('/') && !/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+    return error(`Redirect to non-URL: ${target}`);
+  }
+
+  const regexError = regex ? checkRegex(path) : null;
+  if (regexError) {
+    return error(regexError);
+  }
+
+  return {
+    kind: 'Redirect',
+    sourceLineNo: lineNo,
+    rawLine,
+    directive,
+    regex,
+    status,
+    path,
+    target: target ?? null
+  };
+}
+
+/**
+ * Check that a PCRE pattern can be translated and compiled. Returns an error message, or null.
+ */
+function checkRegex(pattern: string): string | null {
+  const translation = translatePcre(pattern);
+  if (translation.error) {
+    return translation.error;
+  }
+
+  try {
+    new RegExp(translation.source, translation.flags);
+    return null;
+  } catch {
+    return `Invalid regex pattern: ${pattern}`;
+  }
+}
+
 /**
  * Parse RewriteCond directive
  */
 function parseRewriteCond(rawLine: string, lineNo: number, args: string): RewriteCondDirective | ParseErrorNode {
   // RewriteCond TestString CondPattern [flags]
-  // The pattern might have spaces if quoted, but typically doesn't
-  const parts = splitCondArgs(args);
+  const parts = splitRewriteArgs(args);
 
   if (parts.length < 2) {
     return {
@@ -158,6 +494,32 @@ function parseRewriteCond(rawLine: string, lineNo: number, args: string): Rewrit
   const testString = parts[0];
   let condPattern = parts[1];
   const flagsStr = parts.length > 2 ? parts[2] : '';
+  const flagDiagnostics: FlagDiagnostic[] = [];
+
+  // RewriteCond expr "..." evaluates an ap_expr expression; negation is part of the expression
+  if (testString.toLowerCase() === 'expr') {
+    const result = parseExpression(condPattern);
+    if ('error' in result) {
+      return {
+        kind: 'ParseError',
+        sourceLineNo: lineNo,
+        rawLine,
+        message: `Invalid expression: ${result.error}`
+      };
+    }
+
+    return {
+      kind: 'RewriteCond',
+      sourceLineNo: lineNo,
+      rawLine,
+      testString,
+      condPattern,
+      pattern: { type: 'expr', expression: result.expression },
+      flags: parseCondFlags(flagsStr, flagDiagnostics),
+      flagDiagnostics,
+      isNegated: false
+    };
+  }
 
   // Check for negation
   const isNegated = condPattern.startsWith('!');
@@ -165,7 +527,7 @@ function parseRewriteCond(rawLine: string, lineNo: number, args: string): Rewrit
     condPattern = condPattern.slice(1);
   }
 
-  const flags = parseCondFlags(flagsStr);
+  const flags = parseCondFlags(flagsStr, flagDiagnostics);
 
   return {
     kind: 'RewriteCond',
@@ -173,69 +535,147 @@ function parseRewriteCond(rawLine: string, lineNo: number, args: string): Rewrit
     rawLine,
     testString,
     condPattern,
+    pattern: parseCondPattern(condPattern),
     flags,
+    flagDiagnostics,
     isNegated
   };
 }
 
+const FILE_TEST_OPERATORS: FileTestOperator[] = ['-d', '-f', '-F', '-s', '-l', '-L', '-h', '-x', '-U'];
+
+const INTEGER_OPERATORS: IntegerCompareOperator[] = ['-eq', '-ne', '-lt', '-le', '-gt', '-ge'];
+
+// Two-character operators first so '<=' is not read as '<' followed by '='
+const STRING_OPERATORS: StringCompareOperator[] = ['<=', '>=', '<', '>', '='];
+
 /**
- * Split RewriteCond arguments, respecting quoted strings
+ * Classify a CondPattern (negation already removed).
+ * Like Apache, comparison values follow the operator directly: >17, -ge17, =on
  */
-function splitCondArgs(args: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuote = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < args.length; i++) {
-    const char = args[i];
-
-    if (!inQuote && (char === '"' || char === "'")) {
-      inQuote = true;
-      quoteChar = char;
-    } else if (inQuote && char === quoteChar) {
-      inQuote = false;
-      quoteChar = '';
-    } else if (!inQuote && /\s/.test(char)) {
-      if (current) {
-        result.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
-    }
+function parseCondPattern(condPattern: string): CondPattern {
+  const fileOperator = FILE_TEST_OPERATORS.find(op => op === condPattern);
+  if (fileOperator) {
+    return { type: 'file', operator: fileOperator };
   }
 
-  if (current) {
-    result.push(current);
+  const integerOperator = INTEGER_OPERATORS.find(op => condPattern.startsWith(op));
+  if (integerOperator) {
+    return { type: 'integer', operator: integerOperator, value: condPattern.slice(integerOperator.length) };
   }
 
-  return result;
+  const stringOperator = STRING_OPERATORS.find(op => condPattern.startsWith(op));
+  if (stringOperator) {
+    const value = condPattern.slice(stringOperator.length);
+    // mod_rewrite reads ="" as a comparison with the empty string
+    return { type: 'string', operator: stringOperator, value: stringOperator === '=' && value === '""' ? '' : value };
+  }
+
+  return { type: 'regex', regex: condPattern };
 }
 
 /**
- * Parse RewriteCond flags
+ * Flags mod_rewrite knows, by every name they can be written with
  */
-function parseCondFlags(flagsStr: string): CondFlags {
-  const flags = defaultCondFlags();
+const COND_FLAG_NAMES: Record<string, string> = {
+  NC: 'NC', NOCASE: 'NC',
+  OR: 'OR', ORNEXT: 'OR',
+  NV: 'NV', NOVARY: 'NV'
+};
+
+const RULE_FLAG_NAMES: Record<string, string> = {
+  B: 'B', BNP: 'BNP', BACKREFNOPLUS: 'BNP', BCTLS: 'BCTLS', BNE: 'BNE',
+  C: 'C', CHAIN: 'C',
+  CO: 'CO', COOKIE: 'CO',
+  DPI: 'DPI', DISCARDPATH: 'DPI',
+  E: 'E', ENV: 'E',
+  END: 'END',
+  F: 'F', FORBIDDEN: 'F',
+  G: 'G', GONE: 'G',
+  H: 'H', HANDLER: 'H',
+  L: 'L', LAST: 'L',
+  N: 'N', NEXT: 'N',
+  NC: 'NC', NOCASE: 'NC',
+  NE: 'NE', NOESCAPE: 'NE',
+  NS: 'NS', NOSUBREQ: 'NS',
+  P: 'P', PROXY: 'P',
+  PT: 'PT', PASSTHROUGH: 'PT',
+  QSA: 'QSA', QSAPPEND: 'QSA',
+  QSD: 'QSD', QSDISCARD: 'QSD',
+  QSL: 'QSL', QSLAST: 'QSL',
+  R: 'R', REDIRECT: 'R',
+  S: 'S', SKIP: 'S',
+  T: 'T', TYPE: 'T',
+  UNSAFEALLOW3F: 'UnsafeAllow3F',
+  UNSAFEPREFIXSTAT: 'UnsafePrefixStat'
+};
+
+// Rule flags that need a value, and those that may have one
+const RULE_FLAGS_WITH_VALUE = ['CO', 'E', 'H', 'S', 'T'];
+const RULE_FLAGS_OPTIONAL_VALUE = ['B', 'BNP', 'N', 'R'];
+
+// Rule flags that cannot be combined
+const CONFLICTING_RULE_FLAGS: [string, string][] = [
+  ['R', 'P'], ['R', 'F'], ['R', 'G'], ['F', 'G'], ['QSA', 'QSD']
+];
+
+const REDIRECT_CODE_KEYWORDS: Record<string, number> = { permanent: 301, temp: 302, seeother: 303 };
 
-  if (!flagsStr) return flags;
+/**
+ * A flag from a flag list, split at '='
+ */
+interface FlagItem {
+  flag: string;         // As written
+  name: string;         // Upper-cased name
+  value: string | null; // After '=', null if there is none
+}
+
+/**
+ * Split a [flag,flag=value] list. Missing brackets are reported, as Apache rejects them.
+ */
+function splitFlags(flagsStr: string, diagnostics: FlagDiagnostic[]): FlagItem[] {
+  if (!flagsStr) return [];
+
+  if (!flagsStr.startsWith('[') || !flagsStr.endsWith(']')) {
+    diagnostics.push({ kind: 'malformed', flag: flagsStr, message: `Flags must be enclosed in brackets: ${flagsStr}` });
+  }
 
   // Remove brackets if present
   const cleaned = flagsStr.replace(/^\[|\]$/g, '');
-  if (!cleaned) return flags;
 
-  const parts = cleaned.split(',');
+  return cleaned.split(',').map(part => part.trim()).filter(part => part).map(flag => {
+    const eqIndex = flag.indexOf('=');
+    return eqIndex === -1
+      ? { flag, name: flag.toUpperCase(), value: null }
+      : { flag, name: flag.slice(0, eqIndex).toUpperCase(), value: flag.slice(eqIndex + 1) };
+  });
+}
+
+/**
+ * Parse RewriteCond flags
+ */
+function parseCondFlags(flagsStr: string, diagnostics: FlagDiagnostic[]): CondFlags {
+  const flags = defaultCondFlags();
+
+  for (const { flag, name, value } of splitFlags(flagsStr, diagnostics)) {
+    const canonical = COND_FLAG_NAMES[name];
+    if (!canonical) {
+      diagnostics.push(RULE_FLAG_NAMES[name]
+        ? { kind: 'not-for-cond', flag, message: `Flag [${flag}] is not valid for RewriteCond` }
+        : { kind: 'unknown', flag, message: `Unknown flag: [${flag}]` });
+      continue;
+    }
+
+    if (value !== null) {
+      diagnostics.push({ kind: 'malformed', flag, message: `Flag [${canonical}] does not take a value` });
+      continue;
+    }
 
-  for (const part of parts) {
-    const flag = part.trim().toUpperCase();
-    switch (flag) {
+    switch (canonical) {
       case 'NC':
-      case 'NOCASE':
         flags.nocase = true;
         break;
       case 'OR':
-      case 'ORNEXT':
         flags.ornext = true;
         break;
     }
@@ -249,7 +689,7 @@ function parseCondFlags(flagsStr: string): CondFlags {
  */
 function parseRewriteRule(rawLine: string, lineNo: number, args: string): RewriteRuleDirective | ParseErrorNode {
   // RewriteRule Pattern Substitution [flags]
-  const parts = splitRuleArgs(args);
+  const parts = splitRewriteArgs(args);
 
   if (parts.length < 2) {
     return {
@@ -264,7 +704,8 @@ function parseRewriteRule(rawLine: string, lineNo: number, args: string): Rewrit
   const substitution = parts[1];
   const flagsStr = parts.length > 2 ? parts[2] : '';
 
-  const flags = parseRuleFlags(flagsStr);
+  const flagDiagnostics: FlagDiagnostic[] = [];
+  const flags = parseRuleFlags(flagsStr, flagDiagnostics);
 
   return {
     kind: 'RewriteRule',
@@ -272,147 +713,134 @@ function parseRewriteRule(rawLine: string, lineNo: number, args: string): Rewrit
     rawLine,
     pattern,
     substitution,
-    flags
+    flags,
+    flagDiagnostics
   };
 }
 
 /**
- * Split RewriteRule arguments, respecting quoted strings
+ * Parse RewriteRule flags
  */
-function splitRuleArgs(args: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuote = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < args.length; i++) {
-    const char = args[i];
-
-    if (!inQuote && (char === '"' || char === "'")) {
-      inQuote = true;
-      quoteChar = char;
-    } else if (inQuote && char === quoteChar) {
-      inQuote = false;
-      quoteChar = '';
-    } else if (!inQuote && /\s/.test(char)) {
-      if (current) {
-        result.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
+function parseRuleFlags(flagsStr: string, diagnostics: FlagDiagnostic[]): RuleFlags {
+  const flags = defaultRuleFlags();
+  const used = new Set<string>();
+
+  for (const { flag, name, value } of splitFlags(flagsStr, diagnostics)) {
+    const canonical = RULE_FLAG_NAMES[name];
+    if (!canonical) {
+      diagnostics.push({ kind: 'unknown', flag, message: `Unknown flag: [${flag}]` });
+      continue;
+    }
+
+    if (value === null && RULE_FLAGS_WITH_VALUE.includes(canonical)) {
+      diagnostics.push({ kind: 'malformed', flag, message: `Flag [${canonical}] requires a value, e.g. [${canonical}=...]` });
+      continue;
+    }
+    if (value !== null && !RULE_FLAGS_WITH_VALUE.includes(canonical) && !RULE_FLAGS_OPTIONAL_VALUE.includes(canonical)) {
+      diagnostics.push({ kind: 'malformed', flag, message: `Flag [${canonical}] does not take a value` });
+      continue;
+    }
+
+    used.add(canonical);
+
+    switch (canonical) {
+      case 'L':
+        flags.last = true;
+        break;
+      case 'R':
+        flags.redirect = parseRedirectCode(flag, value, diagnostics);
+        break;
+      case 'NC':
+        flags.nocase = true;
+        break;
+      case 'QSA':
+        flags.qsappend = true;
+        break;
+      case 'QSD':
+        flags.qsdiscard = true;
+        break;
+      case 'NE':
+        flags.noescape = true;
+        break;
+      case 'N':
+        flags.next = true;
+        flags.nextLimit = value !== null ? parseFlagNumber(flag, value, diagnostics) : null;
+        break;
+      case 'END':
+        flags.end = true;
+        break;
+      case 'F':
+        flags.forbidden = true;
+        break;
+      case 'G':
+        flags.gone = true;
+        break;
+      case 'C':
+        flags.chain = true;
+        break;
+      case 'S':
+        flags.skip = parseFlagNumber(flag, value!, diagnostics) ?? 1;
+        break;
+      case 'PT':
+        flags.passthrough = true;
+        break;
+      case 'P':
+        flags.proxy = true;
+        break;
+      case 'T':
+        flags.type = value;
+        break;
+      case 'E':
+        flags.env.push(value!);
+        break;
+      case 'CO':
+        flags.cookie.push(value!);
+        break;
     }
   }
 
-  if (current) {
-    result.push(current);
+  for (const [first, second] of CONFLICTING_RULE_FLAGS) {
+    if (used.has(first) && used.has(second)) {
+      diagnostics.push({ kind: 'conflict', flag: second, message: `Flags [${first}] and [${second}] cannot be combined` });
+    }
   }
 
-  return result;
+  return flags;
 }
 
 /**
- * Parse RewriteRule flags
+ * Read the status code of [R=code]: a number or permanent, temp or seeother.
+ * Anything else falls back to 302 like a bare [R].
  */
-function parseRuleFlags(flagsStr: string): RuleFlags {
-  const flags = defaultRuleFlags();
+function parseRedirectCode(flag: string, value: string | null, diagnostics: FlagDiagnostic[]): number {
+  if (value === null) {
+    return 302;
+  }
 
-  if (!flagsStr) return flags;
+  const keywordCode = REDIRECT_CODE_KEYWORDS[value.toLowerCase()];
+  if (keywordCode) {
+    return keywordCode;
+  }
 
-  // Remove brackets if present
-  const cleaned = flagsStr.replace(/^\[|\]$/g, '');
-  if (!cleaned) return flags;
-
-  const parts = cleaned.split(',');
-
-  for (const part of parts) {
-    const flag = part.trim();
-    const upperFlag = flag.toUpperCase();
-
-    // Handle flags with values (R=301, S=2, T=type, etc.)
-    if (flag.includes('=')) {
-      const [name, value] = flag.split('=', 2);
-      const upperName = name.toUpperCase();
-
-      switch (upperName) {
-        case 'R':
-        case 'REDIRECT':
-          flags.redirect = parseInt(value, 10) || 302;
-          break;
-        case 'S':
-        case 'SKIP':
-          flags.skip = parseInt(value, 10) || 1;
-          break;
-        case 'T':
-        case 'TYPE':
-          flags.type = value;
-          break;
-        case 'E':
-        case 'ENV':
-          flags.env.push(value);
-          break;
-        case 'CO':
-        case 'COOKIE':
-          flags.cookie.push(value);
-          break;
-      }
-    } else {
-      // Simple flags
-      switch (upperFlag) {
-        case 'L':
-        case 'LAST':
-          flags.last = true;
-          break;
-        case 'R':
-        case 'REDIRECT':
-          flags.redirect = 302; // Default redirect code
-          break;
-        case 'NC':
-        case 'NOCASE':
-          flags.nocase = true;
-          break;
-        case 'QSA':
-        case 'QSAPPEND':
-          flags.qsappend = true;
-          break;
-        case 'QSD':
-        case 'QSDISCARD':
-          flags.qsdiscard = true;
-          break;
-        case 'NE':
-        case 'NOESCAPE':
-          flags.noescape = true;
-          break;
-        case 'N':
-        case 'NEXT':
-          flags.next = true;
-          break;
-        case 'END':
-          flags.end = true;
-          break;
-        case 'F':
-        case 'FORBIDDEN':
-          flags.forbidden = true;
-          break;
-        case 'G':
-        case 'GONE':
-          flags.gone = true;
-          break;
-        case 'C':
-        case 'CHAIN':
-          flags.chain = true;
-          break;
-        case 'PT':
-        case 'PASSTHROUGH':
-          flags.passthrough = true;
-          break;
-        case 'P':
-        case 'PROXY':
-          flags.proxy = true;
-          break;
-      }
-    }
+  if (!/^\d+$/.test(value)) {
+    diagnostics.push({ kind: 'invalid-redirect', flag, message: `Invalid redirect code: ${value}` });
+    return 302;
   }
 
-  return flags;
+  const code = parseInt(value, 10);
+  if (code < 300 || code > 399) {
+    diagnostics.push({ kind: 'invalid-redirect', flag, message: `Redirect code ${code} is outside 300-399` });
+  }
+  return code;
+}
+
+/**
+ * Read the number of [S=n] or [N=limit]
+ */
+function parseFlagNumber(flag: string, value: string, diagnostics: FlagDiagnostic[]): number | null {
+  if (!/^\d+$/.test(value)) {
+    diagnostics.push({ kind: 'malformed', flag, message: `Flag [${flag}] requires a number` });
+    return null;
+  }
+  return parseInt(value, 10);
 }
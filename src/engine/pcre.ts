@@ -0,0 +1,444 @@
+/**
+ * Translation of PCRE patterns, as Apache matches them, into JavaScript regular expressions.
+ * Constructs JavaScript lacks are rewritten into equivalents; those without one are reported.
+ */
+
+/**
+ * A PCRE pattern rewritten for RegExp
+ */
+export interface PcreTranslation {
+  source: string;          // JavaScript pattern
+  flags: string;           // From leading inline modifiers like (?i)
+  rewritten: boolean;      // A PCRE construct had to be rewritten; $ matching before a final newline does not count
+  groups: number[] | null; // JavaScript group index of each PCRE group ([0] is the whole match), null if numbered alike
+  error: string | null;    // The first construct that cannot be translated
+}
+
+// A capturing group in the output: a PCRE group, or a helper group that emulates atomic matching
+interface Capture {
+  kind: 'capture';
+  group: number | null;
+  name: string | null;
+}
+
+// A backreference by PCRE group number or name, or to a helper group
+interface Backref {
+  kind: 'backref';
+  target: number | string | Capture;
+}
+
+// An unescaped $, which PCRE also matches before a newline at the end of the subject
+interface EndAnchor {
+  kind: 'end';
+}
+
+type Piece = string | Capture | Backref | EndAnchor;
+
+// PCRE's \h and \v: horizontal and vertical whitespace
+const HORIZONTAL_SPACE = '\\t \\xA0\\u1680\\u180E\\u2000-\\u200A\\u202F\\u205F\\u3000';
+const VERTICAL_SPACE = '\\n\\x0B\\f\\r\\x85\\u2028\\u2029';
+
+/**
+ * POSIX classes by name, as class contents
+ */
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: 'a-zA-Z0-9',
+  alpha: 'a-zA-Z',
+  ascii: '\\x00-\\x7F',
+  blank: ' \\t',
+  cntrl: '\\x00-\\x1F\\x7F',
+  digit: '0-9',
+  graph: '\\x21-\\x7E',
+  lower: 'a-z',
+  print: '\\x20-\\x7E',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: '\\t\\n\\x0B\\f\\r ',
+  upper: 'A-Z',
+  word: '\\w',
+  xdigit: '0-9A-Fa-f'
+};
+
+// Negated POSIX classes JavaScript has an escape for
+const NEGATED_POSIX_CLASSES: Record<string, string> = { digit: '\\D', space: '\\S', word: '\\W' };
+
+// Inline modifiers that map to RegExp flags; x is handled while translating
+const MODIFIER_FLAGS: Record<string, string> = { i: 'i', m: 'm', s: 's', x: '' };
+
+/**
+ * Translate a PCRE pattern. Returns an error message instead of throwing.
+ */
+export function translatePcre(pattern: string): PcreTranslation {
+  try {
+    return translate(pattern);
+  } catch (e) {
+    return { source: pattern, flags: '', rewritten: false, groups: null, error: (e as Error).message };
+  }
+}
+
+function translate(pattern: string): PcreTranslation {
+  let i = 0;
+  let extended = false;
+  const flags = new Set<string>();
+  const captures: Capture[] = [];
+
+  const unsupported = (description: string, construct: string, position: number): never => {
+    throw new Error(`Unsupported PCRE feature: ${description} ${construct} at position ${position}`);
+  };
+
+  const capture = (group: number | null, name: string | null = null): Capture => {
+    const piece: Capture = { kind: 'capture', group, name };
+    if (group !== null) {
+      captures.push(piece);
+    }
+    return piece;
+  };
+
+  // (?=(X))\N matches what X matches first and never backtracks into it, like (?>X)
+  const atomic = (inner: Piece[]): Piece[] => {
+    const helper = capture(null);
+    return ['(?:(?=', helper, ...inner, '))', { kind: 'backref', target: helper }, ')'];
+  };
+
+  const escapeLiteral = (text: string): string => text.replace(/[\\^$.*+?()[\]{}|/-]/g, '\\$&');
+
+  const parseEscape = (inClass: boolean): string | Piece[] => {
+    const start = i;
+    const rest = pattern.slice(i);
+    const c = pattern[i + 1];
+    i += 2;
+
+    if (c === undefined) {
+      return '\\';
+    }
+
+    if (c === 'Q') {
+      const end = pattern.indexOf('\\E', i);
+      const literal = pattern.slice(i, end === -1 ? undefined : end);
+      i = end === -1 ? pattern.length : end + 2;
+      return escapeLiteral(literal);
+    }
+    if (c === 'E') {
+      return '';
+    }
+
+    const hex = /^\\x\{([0-9A-Fa-f]+)\}/.exec(rest) ?? /^\\o\{([0-7]+)\}/.exec(rest);
+    if (hex) {
+      i = start + hex[0].length;
+      const code = parseInt(hex[1], hex[0][1] === 'x' ? 16 : 8);
+      if (code > 0xFFFF) {
+        unsupported('code point above U+FFFF', hex[0], start);
+      }
+      return '\\u' + code.toString(16).toUpperCase().padStart(4, '0');
+    }
+
+    switch (c) {
+      case 'e':
+        return '\\x1B';
+      case 'a':
+        return '\\x07';
+      case 'h':
+        return inClass ? HORIZONTAL_SPACE : `[${HORIZONTAL_SPACE}]`;
+      case 'v':
+        return inClass ? VERTICAL_SPACE : `[${VERTICAL_SPACE}]`;
+      case 'H':
+      case 'V':
+        if (inClass) {
+          unsupported('negated escape inside a character class', '\\' + c, start);
+        }
+        return `[^${c === 'H' ? HORIZONTAL_SPACE : VERTICAL_SPACE}]`;
+      case 'K':
+        return unsupported('match start reset', '\\K', start);
+      case 'C':
+        return unsupported('single code unit', '\\C', start);
+      case 'X':
+        return unsupported('extended grapheme cluster', '\\X', start);
+      case 'p':
+      case 'P': {
+        const property = /^\\[pP](\{[^}]*\}|.)/.exec(rest)?.[0] ?? rest.slice(0, 2);
+        return unsupported('Unicode property', property, start);
+      }
+    }
+
+    if (inClass) {
+      return '\\' + c;
+    }
+
+    switch (c) {
+      case 'A':
+        return '^';
+      case 'z':
+        return '$';
+      case 'Z':
+        return '(?=\\n?$)';
+      case 'G':
+        // At the start of the pattern \G is the start of the subject; mod_rewrite matches only once
+        return start === 0 ? '^' : unsupported('match continuation', '\\G', start);
+      case 'R':
+        return `(?:\\r\\n|[${VERTICAL_SPACE}])`;
+      case 'N':
+        return '[^\\n]';
+    }
+
+    const numbered = /^\\(?:g\{(-?\d+)\}|g(-?\d+)|([1-9]\d*))/.exec(rest);
+    if (numbered) {
+      i = start + numbered[0].length;
+      const number = parseInt(numbered[1] ?? numbered[2] ?? numbered[3], 10);
+      // \g{-1} is the most recently opened group
+      return [{ kind: 'backref', target: number < 0 ? captures.length + 1 + number : number }];
+    }
+
+    const named = /^\\(?:k<(\w+)>|k'(\w+)'|k\{(\w+)\}|g\{(\w+)\})/.exec(rest);
+    if (named) {
+      i = start + named[0].length;
+      return [{ kind: 'backref', target: named[1] ?? named[2] ?? named[3] ?? named[4] }];
+    }
+
+    if (c === 'g') {
+      const construct = /^\\g(<[^>]*>|'[^']*')/.exec(rest)?.[0] ?? '\\g';
+      unsupported('subroutine call', construct, start);
+    }
+
+    return '\\' + c;
+  };
+
+  const parseClass = (): string => {
+    let out = '[';
+    i++;
+    if (pattern[i] === '^') {
+      out += '^';
+      i++;
+    }
+    // A ] right after the opening bracket is literal in PCRE; in JavaScript it closes an empty class
+    if (pattern[i] === ']') {
+      out += '\\]';
+      i++;
+    }
+
+    while (i < pattern.length && pattern[i] !== ']') {
+      const posix = /^\[:(\^?)([a-z]+):\]/.exec(pattern.slice(i));
+      if (posix) {
+        const [construct, negated, name] = posix;
+        if (!POSIX_CLASSES[name]) {
+          throw new Error(`Unknown POSIX class ${construct} at position ${i}`);
+        }
+        if (negated && !NEGATED_POSIX_CLASSES[name]) {
+          unsupported('negated POSIX class', construct, i);
+        }
+        out += negated ? NEGATED_POSIX_CLASSES[name] : POSIX_CLASSES[name];
+        i += construct.length;
+      } else if (pattern[i] === '\\') {
+        out += parseEscape(true) as string;
+      } else {
+        out += pattern[i++];
+      }
+    }
+
+    if (pattern[i] === ']') {
+      out += ']';
+      i++;
+    }
+    return out;
+  };
+
+  const parseGroup = (atStart: boolean): Piece[] => {
+    const start = i;
+    const rest = pattern.slice(i);
+
+    const closeGroup = (open: Piece[]): Piece[] => {
+      const inner = parseAlternation(false);
+      if (pattern[i] !== ')') {
+        return [...open, ...inner]; // Left for RegExp to reject
+      }
+      i++;
+      return [...open, ...inner, ')'];
+    };
+
+    if (rest.startsWith('(*')) {
+      unsupported('backtracking control verb', /^\(\*[^)]*\)?/.exec(rest)![0], start);
+    }
+    if (rest.startsWith('(?#')) {
+      const end = pattern.indexOf(')', i);
+      i = end === -1 ? pattern.length : end + 1;
+      return [];
+    }
+
+    const lookaround = /^\(\?(?::|=|!|<=|<!)/.exec(rest);
+    if (lookaround) {
+      i += lookaround[0].length;
+      return closeGroup([lookaround[0]]);
+    }
+
+    if (rest.startsWith('(?>')) {
+      i += 3;
+      const inner = closeGroup([]);
+      return atomic(inner[inner.length - 1] === ')' ? inner.slice(0, -1) : inner);
+    }
+
+    const named = /^\(\?(?:P?<([A-Za-z_]\w*)>|'([A-Za-z_]\w*)')/.exec(rest);
+    if (named) {
+      i += named[0].length;
+      return closeGroup([capture(captures.length + 1, named[1] ?? named[2])]);
+    }
+
+    const namedBackref = /^\(\?P=(\w+)\)/.exec(rest);
+    if (namedBackref) {
+      i += namedBackref[0].length;
+      return [{ kind: 'backref', target: namedBackref[1] }];
+    }
+
+    const recursion = /^\(\?(?:R|[+-]?\d+|P>\w+|&\w+)\)/.exec(rest);
+    if (recursion) {
+      unsupported(recursion[0] === '(?R)' ? 'recursion' : 'subroutine call', recursion[0], start);
+    }
+    if (rest.startsWith('(?|')) {
+      unsupported('branch reset group', '(?|', start);
+    }
+    if (rest.startsWith('(?(')) {
+      unsupported('conditional group', '(?(', start);
+    }
+
+    const modifiers = /^\(\?([a-zA-Z]*)(?:-([a-zA-Z]*))?([:)])/.exec(rest);
+    if (modifiers) {
+      const [construct, on, off = '', end] = modifiers;
+      const unknown = [...on + off].find(flag => MODIFIER_FLAGS[flag] === undefined);
+      if (unknown) {
+        unsupported('inline modifier', construct, start);
+      }
+      // RegExp flags cover the whole pattern, so modifiers must come before anything they would change
+      if (end === ':' || !atStart) {
+        unsupported('inline modifier not at the start of the pattern', construct, start);
+      }
+      for (const flag of on) {
+        flags.add(flag);
+      }
+      for (const flag of off) {
+        flags.delete(flag);
+      }
+      extended = flags.has('x');
+      i += construct.length;
+      return [];
+    }
+
+    if (rest.startsWith('(?')) {
+      unsupported('group syntax', rest.slice(0, 3), start);
+    }
+
+    i++;
+    return closeGroup([capture(captures.length + 1)]);
+  };
+
+  const parseQuantifier = (atom: Piece[]): Piece[] => {
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})/.exec(pattern.slice(i));
+    if (!quantifier) {
+      return atom;
+    }
+    i += quantifier[0].length;
+
+    if (pattern[i] === '+') {
+      // Possessive: X*+ is (?>X*)
+      i++;
+      return atomic([...atom, quantifier[0]]);
+    }
+    if (pattern[i] === '?') {
+      i++;
+      return [...atom, quantifier[0] + '?'];
+    }
+    return [...atom, quantifier[0]];
+  };
+
+  const parseAlternation = (topLevel: boolean): Piece[] => {
+    const pieces: Piece[] = [];
+
+    while (i < pattern.length && pattern[i] !== ')') {
+      const char = pattern[i];
+
+      if (extended && /\s/.test(char)) {
+        i++;
+        continue;
+      }
+      if (extended && char === '#') {
+        const end = pattern.indexOf('\n', i);
+        i = end === -1 ? pattern.length : end + 1;
+        continue;
+      }
+
+      let atom: Piece[];
+      if (char === '\\') {
+        const escaped = parseEscape(false);
+        atom = typeof escaped === 'string' ? [escaped] : escaped;
+      } else if (char === '[') {
+        atom = [parseClass()];
+      } else if (char === '(') {
+        // Only anchors may come before modifiers that apply to the whole pattern
+        atom = parseGroup(topLevel && pieces.every(piece => piece === '^'));
+        if (atom.length === 0) {
+          continue;
+        }
+      } else if (char === '$' && !flags.has('m')) {
+        atom = [{ kind: 'end' }];
+        i++;
+      } else {
+        atom = [char];
+        i++;
+      }
+
+      pieces.push(...parseQuantifier(atom));
+    }
+
+    return pieces;
+  };
+
+  const pieces: Piece[] = [];
+  while (i < pattern.length) {
+    pieces.push(...parseAlternation(true));
+    if (i < pattern.length) {
+      pieces.push(pattern[i++]); // Unbalanced ')', left for RegExp to reject
+    }
+  }
+
+  // Number the groups of the output, helpers included
+  const numbers = new Map<Capture, number>();
+  for (const piece of pieces) {
+    if (typeof piece !== 'string' && piece.kind === 'capture') {
+      numbers.set(piece, numbers.size + 1);
+    }
+  }
+
+  const resolve = (target: number | string | Capture): number => {
+    const group = typeof target === 'object'
+      ? target
+      : captures.find(c => (typeof target === 'number' ? c.group === target : c.name === target));
+    if (!group) {
+      throw new Error(`Reference to non-existent group ${target}`);
+    }
+    return numbers.get(group)!;
+  };
+
+  const render = (end: string): string => pieces.map((piece, index) => {
+    if (typeof piece === 'string') {
+      return piece;
+    }
+    if (piece.kind === 'end') {
+      return end;
+    }
+    if (piece.kind === 'capture') {
+      return piece.name ? `(?<${piece.name}>` : '(';
+    }
+    // Grouped when a digit follows, so it is not read as part of the number
+    const next = pieces[index + 1];
+    const backref = `\\${resolve(piece.target)}`;
+    return typeof next === 'string' && /^\d/.test(next) ? `(?:${backref})` : backref;
+  }).join('');
+
+  const helpers = numbers.size > captures.length;
+  const jsFlags = [...flags].map(flag => MODIFIER_FLAGS[flag]).join('');
+
+  return {
+    // Like \Z, PCRE's $ also matches before a newline at the end of the subject
+    source: render('(?=\\n?$)'),
+    flags: jsFlags,
+    rewritten: render('$') !== pattern || jsFlags !== '',
+    groups: helpers ? [0, ...captures.map(c => numbers.get(c)!)] : null,
+    error: null
+  };
+}
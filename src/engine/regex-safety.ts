@@ -3,7 +3,9 @@
  * and ensure JS regex compatibility.
  */
 
+import { MessageChannel, MessagePort, Worker, receiveMessageOnPort } from 'worker_threads';
 import { EngineConfig, DEFAULT_ENGINE_CONFIG } from '../shared/types';
+import { translatePcre } from './pcre';
 
 /**
  * Result of regex safety check
@@ -110,30 +112,193 @@ export function safeMatch(
 }
 
 /**
- * List of PCRE features not supported in JavaScript regex
+ * Check if pattern uses PCRE features that cannot be translated to JavaScript.
+ * The reason names the construct and where it is.
  */
-export const UNSUPPORTED_PCRE_FEATURES = [
-  '(?R)',       // Recursion
-  '(?P>',       // Named recursion
-  '(?(DEFINE)', // Define blocks
-  '(?&',        // Subroutine calls
-  '(*',         // Backtracking verbs
-  '\\K',        // Reset match start
-  '(?|',        // Branch reset groups
-];
+export function checkPcreCompatibility(pattern: string): RegexSafetyResult {
+  const { error } = translatePcre(pattern);
+  if (error) {
+    return {
+      safe: false,
+      reason: error
+    };
+  }
+
+  return { safe: true };
+}
 
 /**
- * Check if pattern uses unsupported PCRE features
+ * A pattern compiled for matching, or why it cannot be used
  */
-export function checkPcreCompatibility(pattern: string): RegexSafetyResult {
-  for (const feature of UNSUPPORTED_PCRE_FEATURES) {
-    if (pattern.includes(feature)) {
-      return {
-        safe: false,
-        reason: `Unsupported PCRE feature: ${feature}`
-      };
+export interface CompiledPattern {
+  regex: RegExp | null;
+  error: string | null;      // Invalid, too long or using unsupported PCRE features
+  risk: string | null;       // Backtracking risk; the pattern still runs, under the match timeout
+  translated: string | null; // The JavaScript pattern, when PCRE constructs had to be rewritten
+  groups: number[] | null;   // Group index of each PCRE group, when the translation added groups
+}
+
+/**
+ * Result of a guarded match
+ */
+export interface GuardedMatch {
+  match: RegExpExecArray | null;
+  error: string | null; // Subject too long, or the match timed out
+}
+
+/**
+ * Compile a PCRE pattern for matchPattern, translating it to JavaScript first.
+ * Unlike createSafeRegex, risky patterns are compiled too: Apache would run them,
+ * so the tester does, and reports the risk.
+ */
+export function compilePattern(
+  pattern: string,
+  nocase: boolean,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): CompiledPattern {
+  const failed = (error: string): CompiledPattern => ({ regex: null, error, risk: null, translated: null, groups: null });
+
+  const translation = translatePcre(pattern);
+  if (translation.error) {
+    return failed(translation.error);
+  }
+
+  const safety = checkPatternSafety(pattern, config);
+  if (pattern.length > config.maxRegexSubjectLength) {
+    return failed(safety.reason!);
+  }
+
+  const flags = new Set(translation.flags + (nocase ? 'i' : ''));
+  try {
+    return {
+      regex: new RegExp(translation.source, [...flags].join('')),
+      error: null,
+      risk: safety.reason ?? null,
+      translated: translation.rewritten ? `/${translation.source}/${translation.flags}` : null,
+      groups: translation.groups
+    };
+  } catch {
+    return failed('Invalid regex pattern');
+  }
+}
+
+/**
+ * Runs matches for a thread that blocks on `signal` until the result is posted to `port`
+ */
+const MATCH_WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const { port, signal } = workerData;
+const done = () => {
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+};
+port.on('message', ({ source, flags, subject }) => {
+  const match = new RegExp(source, flags).exec(subject);
+  port.postMessage(match && { groups: [...match], index: match.index });
+  done();
+});
+done();
+`;
+
+/**
+ * How long to wait for the match worker to start
+ */
+const WORKER_START_TIMEOUT = 10000;
+
+interface MatchWorker {
+  worker: Worker;
+  port: MessagePort;
+  signal: Int32Array;
+}
+
+// undefined until started, null if worker threads are not available
+let matchWorker: MatchWorker | null | undefined;
+
+/**
+ * Start the match worker and wait until it listens
+ */
+function startMatchWorker(): MatchWorker | null {
+  try {
+    const { port1, port2 } = new MessageChannel();
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const worker = new Worker(MATCH_WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: port2, signal },
+      transferList: [port2]
+    });
+    worker.unref();
+
+    if (Atomics.wait(signal, 0, 0, WORKER_START_TIMEOUT) === 'timed-out') {
+      void worker.terminate();
+      return null;
     }
+    return { worker, port: port1, signal };
+  } catch {
+    return null;
   }
+}
 
-  return { safe: true };
+/**
+ * Match a compiled pattern against a subject in a worker thread, waiting at most
+ * config.regexTimeoutMs. The caller blocks while it waits, so evaluation stays synchronous,
+ * but a runaway match can no longer hang it: the worker is terminated and replaced.
+ */
+export function matchWithTimeout(
+  regex: RegExp,
+  subject: string,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): GuardedMatch {
+  const subjectCheck = checkSubjectSafety(subject, config);
+  if (!subjectCheck.safe) {
+    return { match: null, error: subjectCheck.reason! };
+  }
+
+  if (matchWorker === undefined) {
+    matchWorker = startMatchWorker();
+  }
+  if (matchWorker === null) {
+    // Without worker threads the match runs unguarded
+    return { match: regex.exec(subject), error: null };
+  }
+
+  const { worker, port, signal } = matchWorker;
+  Atomics.store(signal, 0, 0);
+  port.postMessage({ source: regex.source, flags: regex.flags, subject });
+
+  if (Atomics.wait(signal, 0, 0, config.regexTimeoutMs) === 'timed-out') {
+    // A match cannot be interrupted, only the thread running it
+    void worker.terminate();
+    port.close();
+    matchWorker = undefined;
+    return { match: null, error: `Regex match timed out after ${config.regexTimeoutMs}ms` };
+  }
+
+  const result = receiveMessageOnPort(port)?.message as { groups: string[]; index: number } | null | undefined;
+  if (!result) {
+    return { match: null, error: null };
+  }
+  return { match: Object.assign(result.groups, { index: result.index, input: subject }) as RegExpExecArray, error: null };
+}
+
+/**
+ * Match a compiled pattern with matchWithTimeout. Captures are numbered as PCRE numbers them,
+ * without the groups the translation added.
+ */
+export function matchPattern(
+  compiled: CompiledPattern,
+  subject: string,
+  config: EngineConfig = DEFAULT_ENGINE_CONFIG
+): GuardedMatch {
+  if (!compiled.regex) {
+    return { match: null, error: compiled.error };
+  }
+
+  const result = matchWithTimeout(compiled.regex, subject, config);
+  const { match } = result;
+  if (!match || !compiled.groups) {
+    return result;
+  }
+
+  const groups = compiled.groups.map(index => match[index]);
+  return { match: Object.assign(groups, { index: match.index, input: subject }) as RegExpExecArray, error: null };
 }
@@ -0,0 +1,101 @@
+/**
+ * Apache config tokenization: logical lines and argument words.
+ */
+
+/**
+ * A configuration line after joining backslash continuations
+ */
+export interface LogicalLine {
+  lineNo: number;  // First physical line
+  rawLine: string; // Physical lines as written, joined with '\n'
+  text: string;    // Continuations joined, without the trailing backslashes
+}
+
+/**
+ * Split content into logical lines. Like ap_cfg_getline, a line ending in a backslash
+ * continues on the next line: the backslash is dropped and the next line appended as is.
+ */
+export function readLogicalLines(content: string): LogicalLine[] {
+  const physical = content.split(/\r?\n/);
+  const lines: LogicalLine[] = [];
+
+  for (let i = 0; i < physical.length; i++) {
+    const lineNo = i + 1;
+    const raw = [physical[i]];
+    let text = physical[i];
+
+    while (text.endsWith('\\') && i + 1 < physical.length) {
+      text = text.slice(0, -1) + physical[++i];
+      raw.push(physical[i]);
+    }
+
+    lines.push({ lineNo, rawLine: raw.join('\n'), text });
+  }
+
+  return lines;
+}
+
+/**
+ * Split arguments into words like ap_getword_conf, which most directives use.
+ * A word starting with a quote runs to the matching quote; inside it, \\ and the escaped quote
+ * stand for themselves. Any other word runs to the next whitespace, quotes included.
+ */
+export function splitWords(args: string): string[] {
+  const words: string[] = [];
+  let i = 0;
+
+  for (;;) {
+    while (i < args.length && /\s/.test(args[i])) i++;
+    if (i >= args.length) {
+      return words;
+    }
+
+    const quote = args[i] === '"' || args[i] === "'" ? args[i] : null;
+    let word = '';
+
+    if (quote) {
+      i++;
+      while (i < args.length && args[i] !== quote) {
+        if (args[i] === '\\' && (args[i + 1] === quote || args[i + 1] === '\\')) {
+          i++;
+        }
+        word += args[i++];
+      }
+      i++; // Closing quote
+    } else {
+      while (i < args.length && !/\s/.test(args[i])) {
+        word += args[i++];
+      }
+    }
+
+    words.push(word);
+  }
+}
+
+/**
+ * Split RewriteRule and RewriteCond arguments like mod_rewrite's own parser (parseargline).
+ * A word may be quoted, but escapes are not processed: a backslash before whitespace keeps the
+ * whitespace in the word (the backslash stays, so a pattern reads it as a literal space),
+ * and a quote only ends a word that started with the same quote.
+ */
+export function splitRewriteArgs(args: string): string[] {
+  const words: string[] = [];
+  let i = 0;
+
+  for (;;) {
+    while (i < args.length && /\s/.test(args[i])) i++;
+    if (i >= args.length) {
+      return words;
+    }
+
+    const quote = args[i] === '"' || args[i] === "'" ? args[i++] : null;
+    const start = i;
+
+    while (i < args.length && args[i] !== quote && (quote || !/\s/.test(args[i]))) {
+      i += args[i] === '\\' && /\s/.test(args[i + 1] ?? '') ? 2 : 1;
+    }
+
+    words.push(args.slice(start, i));
+    i++; // Closing quote or separator
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Catalogue of the server variables mod_rewrite knows by name (%{NAME}),
+ * and their derivation from the request being tested.
+ */
+
+/**
+ * What the server variables are derived from
+ */
+export interface RequestContext {
+  scheme: string;
+  hostname: string;                 // Without port
+  port: string;                     // Empty for the scheme's default port
+  path: string;                     // URL-path without leading slash
+  query: string;
+  method: string;
+  remoteAddr: string;
+  headers: Record<string, string>;  // Lower-case names
+  documentRoot: string;
+  filename: string;                 // REQUEST_FILENAME
+  pathInfo: string;
+  now: Date;
+}
+
+/**
+ * Header-derived variables that mod_rewrite knows by name.
+ * Any other header must be read with %{HTTP:name}.
+ */
+export const HEADER_VARIABLES: Record<string, string> = {
+  HTTP_ACCEPT: 'accept',
+  HTTP_COOKIE: 'cookie',
+  HTTP_FORWARDED: 'forwarded',
+  HTTP_HOST: 'host',
+  HTTP_PROXY_CONNECTION: 'proxy-connection',
+  HTTP_REFERER: 'referer',
+  HTTP_USER_AGENT: 'user-agent'
+};
+
+/**
+ * Every variable listed in the mod_rewrite documentation
+ */
+export const SERVER_VARIABLE_NAMES: readonly string[] = [
+  ...Object.keys(HEADER_VARIABLES),
+  // Connection & request
+  'AUTH_TYPE', 'CONN_REMOTE_ADDR', 'CONTEXT_PREFIX', 'CONTEXT_DOCUMENT_ROOT', 'IPV6', 'PATH_INFO',
+  'QUERY_STRING', 'REMOTE_ADDR', 'REMOTE_HOST', 'REMOTE_IDENT', 'REMOTE_PORT', 'REMOTE_USER',
+  'REQUEST_METHOD', 'SCRIPT_FILENAME',
+  // Server internals
+  'DOCUMENT_ROOT', 'SCRIPT_GROUP', 'SCRIPT_USER', 'SERVER_ADDR', 'SERVER_ADMIN', 'SERVER_NAME',
+  'SERVER_PORT', 'SERVER_PROTOCOL', 'SERVER_SOFTWARE',
+  // Date and time
+  'TIME_YEAR', 'TIME_MON', 'TIME_DAY', 'TIME_HOUR', 'TIME_MIN', 'TIME_SEC', 'TIME_WDAY', 'TIME',
+  // Specials
+  'API_VERSION', 'HTTPS', 'IS_SUBREQ', 'REQUEST_FILENAME', 'REQUEST_SCHEME', 'REQUEST_URI', 'THE_REQUEST'
+];
+
+/**
+ * Module magic number of Apache 2.4
+ */
+const API_VERSION = '20120211:129';
+
+/**
+ * Check if a variable is one mod_rewrite knows by name
+ */
+export function isKnownVariable(name: string): boolean {
+  return SERVER_VARIABLE_NAMES.includes(name);
+}
+
+/**
+ * TIME_* variables for a clock reading, in server local time like Apache
+ */
+export function buildTimeVariables(now: Date): Record<string, string> {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const year = now.getFullYear().toString().padStart(4, '0');
+  const month = pad(now.getMonth() + 1);
+  const day = pad(now.getDate());
+  const hour = pad(now.getHours());
+  const minute = pad(now.getMinutes());
+  const second = pad(now.getSeconds());
+
+  return {
+    TIME_YEAR: year,
+    TIME_MON: month,
+    TIME_DAY: day,
+    TIME_HOUR: hour,
+    TIME_MIN: minute,
+    TIME_SEC: second,
+    TIME_WDAY: now.getDay().toString(),
+    TIME: year + month + day + hour + minute + second
+  };
+}
+
+/**
+ * Derive every catalogued variable from the request.
+ * Headers that were not sent are left out, as Apache leaves them unset.
+ */
+export function buildServerVariables(request: RequestContext): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [variable, header] of Object.entries(HEADER_VARIABLES)) {
+    if (request.headers[header] !== undefined) {
+      variables[variable] = request.headers[header];
+    }
+  }
+
+  const https = request.scheme === 'https';
+  const requestUri = '/' + request.path;
+
+  return {
+    ...variables,
+    AUTH_TYPE: '',
+    CONN_REMOTE_ADDR: request.remoteAddr,
+    CONTEXT_PREFIX: '',
+    CONTEXT_DOCUMENT_ROOT: request.documentRoot,
+    IPV6: request.remoteAddr.includes(':') ? 'on' : 'off',
+    PATH_INFO: request.pathInfo,
+    QUERY_STRING: request.query,
+    REMOTE_ADDR: request.remoteAddr,
+    REMOTE_HOST: request.remoteAddr, // No HostnameLookups
+    REMOTE_IDENT: '',
+    REMOTE_PORT: '49152',
+    REMOTE_USER: '',
+    REQUEST_METHOD: request.method,
+    SCRIPT_FILENAME: request.filename,
+    DOCUMENT_ROOT: request.documentRoot,
+    SCRIPT_GROUP: 'www-data',
+    SCRIPT_USER: 'www-data',
+    SERVER_ADDR: '127.0.0.1',
+    SERVER_ADMIN: `webmaster@${request.hostname}`,
+    SERVER_NAME: request.hostname,
+    SERVER_PORT: request.port || (https ? '443' : '80'),
+    SERVER_PROTOCOL: 'HTTP/1.1',
+    SERVER_SOFTWARE: 'Apache',
+    ...buildTimeVariables(request.now),
+    API_VERSION,
+    HTTPS: https ? 'on' : 'off',
+    IS_SUBREQ: 'false',
+    REQUEST_FILENAME: request.filename,
+    REQUEST_SCHEME: request.scheme,
+    REQUEST_URI: requestUri,
+    THE_REQUEST: `${request.method} ${requestUri}${request.query ? '?' + request.query : ''} HTTP/1.1`
+  };
+}
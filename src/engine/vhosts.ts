@@ -0,0 +1,68 @@
+/**
+ * Name-based virtual host selection for server config rules.
+ */
+
+import { AstNode, ContainerNode, flattenNodes } from './ast';
+import { globToRegExp } from './expr';
+
+/**
+ * Host names a <VirtualHost> answers to, from its ServerName and ServerAlias directives
+ */
+function serverNames(vhost: ContainerNode): { name: string | null; aliases: string[] } {
+  let name: string | null = null;
+  const aliases: string[] = [];
+
+  for (const node of flattenNodes(vhost.children)) {
+    if (node.kind !== 'ServerName') {
+      continue;
+    }
+    if (node.directive.toLowerCase() === 'servername') {
+      // ServerName may carry a scheme and port: https://www.example.com:443
+      name = node.names[0].replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/:\d+$/, '');
+    } else {
+      aliases.push(...node.names);
+    }
+  }
+
+  return { name, aliases };
+}
+
+/**
+ * Check whether a <VirtualHost> listens on a port; addresses without a port, or with *, match any
+ */
+function listensOn(vhost: ContainerNode, port: string): boolean {
+  if (vhost.test.type !== 'vhost') {
+    return false;
+  }
+  return vhost.test.addresses.some(address => {
+    const match = address.match(/:(\d+|\*)$/);
+    return !match || match[1] === '*' || match[1] === port;
+  });
+}
+
+/**
+ * Select the <VirtualHost> that serves a request, like Apache's name-based virtual hosting:
+ * the first section on the port whose ServerName or ServerAlias matches the host wins,
+ * otherwise the first section on the port is the default. Returns null if none listens on the port.
+ */
+export function selectVirtualHost(nodes: AstNode[], hostname: string, port: string): ContainerNode | null {
+  const candidates = flattenNodes(nodes).filter(
+    (node): node is ContainerNode => node.kind === 'Container' && listensOn(node, port)
+  );
+
+  const host = hostname.toLowerCase();
+  const named = candidates.find(vhost => {
+    const { name, aliases } = serverNames(vhost);
+    return name?.toLowerCase() === host || aliases.some(alias => globToRegExp(alias, true, false).test(host));
+  });
+
+  return named ?? candidates[0] ?? null;
+}
+
+/**
+ * Label a <VirtualHost> for the trace, e.g. "<VirtualHost *:443> www.example.com"
+ */
+export function describeVirtualHost(vhost: ContainerNode): string {
+  const { name } = serverNames(vhost);
+  return `<VirtualHost ${vhost.args}>` + (name ? ` ${name}` : '');
+}
@@ -3,6 +3,45 @@
  * These types must NOT depend on VS Code APIs.
  */
 
+/**
+ * The incoming HTTP request being tested (besides its URL)
+ */
+export interface HttpRequestInput {
+  method?: string;                  // Defaults to GET
+  headers?: Record<string, string>; // Header names are case-insensitive
+  cookies?: Record<string, string>; // Sent as the Cookie header
+  remoteAddr?: string;              // Defaults to 127.0.0.1
+}
+
+/**
+ * A file, directory or symlink in the virtual document root
+ */
+export interface VirtualFileEntry {
+  path: string;        // Relative to the document root, e.g. "css/app.css"
+  type: 'file' | 'directory' | 'symlink';
+  size?: number;       // Bytes, for files (defaults to 0)
+  executable?: boolean;
+  target?: string;     // For symlinks; relative to the link's directory or absolute
+}
+
+/**
+ * Result of looking up a filesystem path
+ */
+export interface FileStat {
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  executable: boolean;
+  target?: string;     // Absolute target path, for symlinks
+}
+
+/**
+ * Answers filesystem lookups for file tests.
+ * lstat() must not follow symlinks; paths are absolute.
+ */
+export interface FileSystemProvider {
+  lstat(path: string): FileStat | null;
+}
+
 /**
  * Input to the htaccess evaluator
  */
@@ -10,6 +49,43 @@ export interface EngineInput {
   url: string;
   rules: string;
   serverVariables: Record<string, string>;
+  request?: HttpRequestInput;
+  /**
+   * Re-run the ruleset after each internal rewrite until the URL stabilizes,
+   * like Apache does for per-directory (.htaccess) rules
+   */
+  reinject?: boolean;
+  documentRoot?: string; // Defaults to /var/www/html
+  /**
+   * Existing files under the document root, or a provider that looks them up
+   * (e.g. the real workspace folder)
+   */
+  filesystem?: VirtualFileEntry[] | FileSystemProvider;
+  mapFiles?: Record<string, string>; // Contents of RewriteMap files, keyed by the MapSource as written
+  now?: Date; // Clock for TIME_* variables and cookie expiry, read as server local time; defaults to the current time
+  modules?: string[]; // Loaded modules for <IfModule> (e.g. "rewrite" or "mod_rewrite.c"); defaults to DEFAULT_MODULES
+  /**
+   * .htaccess files in subdirectories of the document root; `rules` is the document root's own file.
+   * Each request is evaluated against the files of the directories it passes through.
+   */
+  htaccessFiles?: HtaccessFile[];
+  context?: EngineContext; // Defaults to 'directory'
+}
+
+/**
+ * Where the rules are configured:
+ * - directory: an .htaccess file; patterns see the path relative to its directory
+ * - server: the main server config; patterns see the full URL-path and rules run once
+ * - vhost: like server, but the <VirtualHost> matching the request's host and port is selected
+ */
+export type EngineContext = 'directory' | 'server' | 'vhost';
+
+/**
+ * An .htaccess file in a subdirectory of the document root
+ */
+export interface HtaccessFile {
+  directory: string; // Relative to the document root, e.g. "shop" or "shop/admin"
+  rules: string;
 }
 
 /**
@@ -22,6 +98,62 @@ export interface TraceLine {
   reached: boolean;
   met: boolean;
   message: string | null;
+  pass: number;
+  warnings: string[]; // Flag problems, and variables that are unknown or resolved to an empty string
+  mapLookups: MapLookup[];
+  file?: string; // The .htaccess file the line belongs to, e.g. "shop/.htaccess"; set when testing several files
+  translatedPattern?: string; // The JavaScript regex a PCRE pattern was rewritten to, e.g. "/^[a-zA-Z]+/" for ^[[:alpha:]]+
+  details?: TraceDetails; // Set for conditions and rules that were evaluated
+}
+
+/**
+ * The values a RewriteCond or RewriteRule was evaluated with
+ */
+export interface TraceDetails {
+  subject?: string;              // Expanded test string of a condition, or the path a rule pattern was matched against
+  captures: string[];            // Regex captures, available as %N (condition) or $N (rule)
+  substitution?: string;         // Rule substitution as written
+  expandedSubstitution?: string; // Substitution after variables and backreferences were expanded
+  path?: string;                 // URL-path after the rule was applied
+  query?: string;                // Query string after the rule was applied
+}
+
+/**
+ * A ${map:key|default} lookup made while evaluating a line
+ */
+export interface MapLookup {
+  map: string;
+  key: string;
+  value: string | null; // null if the key was not found and the default was used
+}
+
+/**
+ * Why a pass over the ruleset was started
+ */
+export type PassReason = 'initial' | 'next' | 'reinject';
+
+/**
+ * A single pass over the ruleset
+ */
+export interface EvaluationPass {
+  pass: number;
+  reason: PassReason;
+  url: string;
+}
+
+/**
+ * A cookie set by a RewriteRule [CO=...] flag
+ */
+export interface ResponseCookie {
+  name: string;
+  value: string;
+  domain: string;
+  lifetime: number | null; // Minutes, null or 0 for a session cookie
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: string | null;
+  header: string;          // Set-Cookie header value
 }
 
 /**
@@ -32,7 +164,28 @@ export type EngineStatus =
   | 'redirect'
   | 'error'
   | 'unsupported'
-  | 'limit-exceeded';
+  | 'limit-exceeded'
+  | 'loop-detected';
+
+/**
+ * What ended an evaluation early
+ */
+export type EngineReasonCode =
+  | 'invalid-url'    // The URL could not be parsed
+  | 'url-too-long'   // The URL, as requested or rewritten, is longer than maxUrlLength
+  | 'too-many-rules' // The rule files hold more RewriteRule directives than maxRuleCount
+  | 'next-limit'     // [N] restarted the rules more often than its limit
+  | 'max-iterations' // More passes than maxIterations
+  | 'rewrite-loop';  // Re-injection reached a URL-path processed in an earlier pass
+
+/**
+ * Why the status is error, limit-exceeded or loop-detected
+ */
+export interface EngineReason {
+  code: EngineReasonCode;
+  limit?: number;  // The limit that was exceeded
+  actual?: number; // The value that exceeded it
+}
 
 /**
  * Output from the htaccess evaluator
@@ -41,7 +194,12 @@ export interface EngineOutput {
   finalUrl: string;
   status: EngineStatus;
   statusCode: number | null;
+  message: string | null;
+  reason: EngineReason | null; // Set when evaluation ended early
   trace: TraceLine[];
+  passes: EvaluationPass[];
+  environment: Record<string, string>;
+  cookies: ResponseCookie[];
 }
 
 /**
@@ -52,6 +210,7 @@ export interface EngineConfig {
   maxUrlLength: number;
   maxRegexSubjectLength: number;
   maxRuleCount: number;
+  regexTimeoutMs: number; // How long a single regex match may run
 }
 
 /**
@@ -61,5 +220,6 @@ export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
   maxIterations: 100,
   maxUrlLength: 8192,
   maxRegexSubjectLength: 2048,
-  maxRuleCount: 1000
+  maxRuleCount: 1000,
+  regexTimeoutMs: 1000
 };
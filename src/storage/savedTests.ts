@@ -1,10 +1,15 @@
 import * as vscode from 'vscode';
+import { EngineContext, HttpRequestInput } from '../shared/types';
 
 export interface SavedTestCase {
   name: string;
   url: string;
   rules: string;
   serverVariables: Record<string, string>;
+  reinject?: boolean;
+  time?: string;
+  request?: HttpRequestInput;
+  context?: EngineContext;
 }
 
 const STORAGE_KEY = 'htaccessTester.savedTestCases';
@@ -1,3 +1,5 @@
+import { HttpRequestInput } from '../shared/types';
+
 export type ValidationResult =
   | { valid: true }
   | { valid: false; message: string };
@@ -41,10 +43,40 @@ export function validateServerVariables(
   return { valid: true };
 }
 
+export function validateRequest(request: HttpRequestInput): ValidationResult {
+  if (request.method !== undefined && !/^[A-Za-z]+$/.test(request.method)) {
+    return { valid: false, message: 'Request method must contain only letters' };
+  }
+
+  for (const [key] of Object.entries(request.headers ?? {})) {
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(key.trim())) {
+      return { valid: false, message: `Invalid request header name: "${key}"` };
+    }
+  }
+
+  for (const [key] of Object.entries(request.cookies ?? {})) {
+    if (!key || key.trim().length === 0 || /[=;\s]/.test(key.trim())) {
+      return { valid: false, message: `Invalid request cookie name: "${key}"` };
+    }
+  }
+
+  return { valid: true };
+}
+
+export function validateTime(time: string): ValidationResult {
+  if (isNaN(new Date(time).getTime())) {
+    return { valid: false, message: 'Request time must be a valid date and time' };
+  }
+
+  return { valid: true };
+}
+
 export function validateTestRequest(
   url: string,
   rules: string,
-  serverVariables: Record<string, string>
+  serverVariables: Record<string, string>,
+  request?: HttpRequestInput,
+  time?: string
 ): ValidationResult {
   const urlResult = validateUrl(url);
   if (!urlResult.valid) {
@@ -61,5 +93,19 @@ export function validateTestRequest(
     return varsResult;
   }
 
+  if (request) {
+    const requestResult = validateRequest(request);
+    if (!requestResult.valid) {
+      return requestResult;
+    }
+  }
+
+  if (time) {
+    const timeResult = validateTime(time);
+    if (!timeResult.valid) {
+      return timeResult;
+    }
+  }
+
   return { valid: true };
 }
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileStat, FileSystemProvider, HtaccessFile } from '../shared/types';
+
+/**
+ * Convert a native path to the POSIX-style absolute path the engine works with
+ * (C:\site\public becomes /C:/site/public)
+ */
+export function toEnginePath(fsPath: string): string {
+  const posix = fsPath.replace(/\\/g, '/');
+  return posix.startsWith('/') ? posix : '/' + posix;
+}
+
+/**
+ * Convert an engine path back to a native path
+ */
+export function fromEnginePath(enginePath: string): string {
+  const native = /^\/[A-Za-z]:/.test(enginePath) ? enginePath.slice(1) : enginePath;
+  return path.normalize(native);
+}
+
+/**
+ * Create a provider that answers file tests from a real directory on disk.
+ * Only paths inside the root are visible; anything outside does not exist.
+ */
+export function createWorkspaceFileSystem(rootDir: string): FileSystemProvider {
+  const root = path.resolve(rootDir);
+
+  const isInsideRoot = (fsPath: string): boolean => {
+    const relative = path.relative(root, fsPath);
+    return relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+  };
+
+  return {
+    lstat(enginePath: string): FileStat | null {
+      const fsPath = path.resolve(fromEnginePath(enginePath));
+      if (!isInsideRoot(fsPath)) {
+        return null;
+      }
+
+      let stats: fs.Stats | undefined;
+      try {
+        stats = fs.lstatSync(fsPath, { throwIfNoEntry: false });
+      } catch {
+        return null;
+      }
+      if (!stats) {
+        return null;
+      }
+
+      if (stats.isSymbolicLink()) {
+        let target: string;
+        try {
+          target = path.resolve(path.dirname(fsPath), fs.readlinkSync(fsPath));
+        } catch {
+          return null;
+        }
+        return { type: 'symlink', size: stats.size, executable: false, target: toEnginePath(target) };
+      }
+
+      return {
+        type: stats.isDirectory() ? 'directory' : 'file',
+        size: stats.size,
+        executable: (stats.mode & 0o111) !== 0
+      };
+    }
+  };
+}
+
+/**
+ * Find the .htaccess files in subdirectories of a folder, so a request is tested against every
+ * level it passes through. Hidden folders and node_modules are skipped.
+ */
+export function findHtaccessFiles(rootDir: string, maxDirectories = 500): HtaccessFile[] {
+  const files: HtaccessFile[] = [];
+  const pending = [''];
+  let visited = 0;
+
+  while (pending.length > 0 && visited++ < maxDirectories) {
+    const directory = pending.shift() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(rootDir, directory), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+        pending.push(directory ? `${directory}/${entry.name}` : entry.name);
+      } else if (directory && entry.isFile() && entry.name === '.htaccess') {
+        try {
+          files.push({ directory, rules: fs.readFileSync(path.join(rootDir, directory, entry.name), 'utf8') });
+        } catch {
+          // Unreadable files are left out
+        }
+      }
+    }
+  }
+
+  return files;
+}
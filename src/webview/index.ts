@@ -1,4 +1,4 @@
-export { HtaccessTesterPanel } from './panel';
+export { HtaccessTesterPanel, isServerConfigFile } from './panel';
 export {
   WebviewToExtensionMessage,
   ExtensionToWebviewMessage,
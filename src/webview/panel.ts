@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { HtaccessTestService } from '../domain/service';
 import { SavedTestsService } from '../storage';
+import { TestRequest } from '../domain/model';
 import { ExtensionToWebviewMessage, isValidWebviewMessage } from './bridge';
 
 export class HtaccessTesterPanel {
@@ -16,6 +17,8 @@ export class HtaccessTesterPanel {
   private readonly context: vscode.ExtensionContext;
   private disposables: vscode.Disposable[] = [];
   private pendingEditorContent: { rules: string; filePath: string } | null = null;
+  private documentRoot: string | null = null;
+  private configDir: string | null = null;
 
   private constructor(
     panel: vscode.WebviewPanel,
@@ -67,6 +70,9 @@ export class HtaccessTesterPanel {
   }
 
   public loadFromFile(content: string, filePath: string): void {
+    // A server config file does not live in the document root
+    this.documentRoot = isServerConfigFile(filePath) ? null : path.dirname(filePath);
+    this.configDir = path.dirname(filePath);
     this.pendingEditorContent = { rules: content, filePath };
     this.postMessage({
       type: 'editorContent',
@@ -116,14 +122,20 @@ export class HtaccessTesterPanel {
     }
   }
 
-  private async runTest(payload: { url: string; rules: string; serverVariables: Record<string, string> }): Promise<void> {
+  private async runTest(payload: TestRequest): Promise<void> {
     this.postMessage({ type: 'loading', payload: { isLoading: true } });
 
     try {
       const result = await this.testService.test({
         url: payload.url,
         rules: payload.rules,
-        serverVariables: payload.serverVariables
+        serverVariables: payload.serverVariables,
+        reinject: payload.reinject,
+        time: payload.time,
+        request: payload.request,
+        documentRoot: this.documentRoot ?? undefined,
+        configDir: this.configDir ?? undefined,
+        context: payload.context
       });
       this.postMessage({ type: 'testResult', payload: result });
     } catch (error) {
@@ -144,18 +156,20 @@ export class HtaccessTesterPanel {
     const document = editor.document;
     const fileName = path.basename(document.fileName);
 
-    if (fileName !== '.htaccess') {
-      vscode.window.showWarningMessage('Active file is not an .htaccess file');
+    if (fileName !== '.htaccess' && !isServerConfigFile(fileName)) {
+      vscode.window.showWarningMessage('Active file is not an .htaccess or .conf file');
       return;
     }
 
+    this.documentRoot = isServerConfigFile(fileName) ? null : path.dirname(document.fileName);
+    this.configDir = path.dirname(document.fileName);
     this.postMessage({
       type: 'editorContent',
       payload: { rules: document.getText(), filePath: document.fileName }
     });
   }
 
-  private async promptAndSaveTestCase(payload: { url: string; rules: string; serverVariables: Record<string, string> }): Promise<void> {
+  private async promptAndSaveTestCase(payload: TestRequest): Promise<void> {
     const name = await vscode.window.showInputBox({
       prompt: 'Enter a name for this test case',
       placeHolder: 'Test case name'
@@ -169,7 +183,11 @@ export class HtaccessTesterPanel {
       name,
       url: payload.url,
       rules: payload.rules,
-      serverVariables: payload.serverVariables
+      serverVariables: payload.serverVariables,
+      reinject: payload.reinject,
+      time: payload.time,
+      request: payload.request,
+      context: payload.context
     });
 
     this.sendSavedTestCases();
@@ -179,6 +197,8 @@ export class HtaccessTesterPanel {
   private loadTestCase(name: string): void {
     const testCase = this.savedTestsService.getTestCase(name);
     if (testCase) {
+      this.documentRoot = null;
+      this.configDir = null;
       this.postMessage({
         type: 'editorContent',
         payload: { rules: testCase.rules, filePath: '' }
@@ -244,3 +264,10 @@ export class HtaccessTesterPanel {
     }
   }
 }
+
+/**
+ * Check if a file is an Apache server config file (httpd.conf, sites-available/*.conf)
+ */
+export function isServerConfigFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.conf';
+}
@@ -6,18 +6,64 @@ interface VsCodeApi {
 
 declare function acquireVsCodeApi(): VsCodeApi;
 
-interface ServerVariable {
+interface KeyValuePair {
   key: string;
   value: string;
 }
 
+interface HttpRequestInput {
+  method?: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  remoteAddr?: string;
+}
+
+interface EvaluationPass {
+  pass: number;
+  reason: 'initial' | 'next' | 'reinject';
+  url: string;
+}
+
+interface ResponseCookie {
+  name: string;
+  value: string;
+  header: string;
+}
+
+interface EngineReason {
+  code: string;
+  limit?: number;
+  actual?: number;
+}
+
 interface TestResult {
   outputUrl: string;
   outputStatusCode: number | null;
+  status: string;
+  message: string | null;
+  reason: EngineReason | null;
   lines: ResultLine[];
+  passes: EvaluationPass[];
+  environment: Record<string, string>;
+  cookies: ResponseCookie[];
   rawResponse: string;
 }
 
+interface MapLookup {
+  map: string;
+  key: string;
+  value: string | null;
+}
+
+interface TraceDetails {
+  subject?: string;
+  captures: string[];
+  substitution?: string;
+  expandedSubstitution?: string;
+  path?: string;
+  query?: string;
+}
+
 interface ResultLine {
   line: string;
   message: string | null;
@@ -25,6 +71,12 @@ interface ResultLine {
   isValid: boolean;
   wasReached: boolean;
   isSupported: boolean;
+  pass: number;
+  warnings: string[];
+  mapLookups: MapLookup[];
+  file?: string;
+  translatedPattern?: string;
+  details?: TraceDetails;
 }
 
 interface SavedTestCase {
@@ -32,22 +84,40 @@ interface SavedTestCase {
   url: string;
   rules: string;
   serverVariables: Record<string, string>;
+  reinject?: boolean;
+  time?: string;
+  request?: HttpRequestInput;
+  context?: RuleContext;
 }
 
+type RuleContext = 'directory' | 'server' | 'vhost';
+
 type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
 
 (function() {
   const vscode = acquireVsCodeApi();
 
-  let serverVariables: ServerVariable[] = [];
+  let serverVariables: KeyValuePair[] = [];
+  let requestHeaders: KeyValuePair[] = [];
+  let requestCookies: KeyValuePair[] = [];
   let currentResult: TestResult | null = null;
   let currentFilter: TraceFilter = 'ALL';
   let savedTestCases: SavedTestCase[] = [];
 
   const urlInput = document.getElementById('url-input') as HTMLInputElement;
+  const reinjectCheckbox = document.getElementById('reinject-checkbox') as HTMLInputElement;
+  const contextSelect = document.getElementById('context-select') as HTMLSelectElement;
   const rulesTextarea = document.getElementById('rules-textarea') as HTMLTextAreaElement;
+  const documentRootHint = document.getElementById('document-root-hint') as HTMLDivElement;
   const variablesBody = document.getElementById('variables-body') as HTMLTableSectionElement;
   const addVariableBtn = document.getElementById('add-variable-btn') as HTMLButtonElement;
+  const methodSelect = document.getElementById('method-select') as HTMLSelectElement;
+  const remoteAddrInput = document.getElementById('remote-addr-input') as HTMLInputElement;
+  const timeInput = document.getElementById('time-input') as HTMLInputElement;
+  const headersBody = document.getElementById('headers-body') as HTMLTableSectionElement;
+  const addHeaderBtn = document.getElementById('add-header-btn') as HTMLButtonElement;
+  const cookiesBody = document.getElementById('cookies-body') as HTMLTableSectionElement;
+  const addCookieBtn = document.getElementById('add-cookie-btn') as HTMLButtonElement;
   const testBtn = document.getElementById('test-btn') as HTMLButtonElement;
   const loadEditorBtn = document.getElementById('load-editor-btn') as HTMLButtonElement;
   const saveTestBtn = document.getElementById('save-test-btn') as HTMLButtonElement;
@@ -57,6 +127,13 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
   const filterSelect = document.getElementById('filter-select') as HTMLSelectElement;
   const resultsSection = document.getElementById('results-section') as HTMLDivElement;
   const traceBody = document.getElementById('trace-body') as HTMLTableSectionElement;
+  const outputUrl = document.getElementById('output-url') as HTMLSpanElement;
+  const outputStatus = document.getElementById('output-status') as HTMLSpanElement;
+  const outputMessage = document.getElementById('output-message') as HTMLDivElement;
+  const outputEnvironmentItem = document.getElementById('output-environment-item') as HTMLDivElement;
+  const outputEnvironment = document.getElementById('output-environment') as HTMLSpanElement;
+  const outputCookiesItem = document.getElementById('output-cookies-item') as HTMLDivElement;
+  const outputCookies = document.getElementById('output-cookies') as HTMLUListElement;
   const statsTotal = document.getElementById('stats-total') as HTMLSpanElement;
   const statsMet = document.getElementById('stats-met') as HTMLSpanElement;
   const statsNotMet = document.getElementById('stats-not-met') as HTMLSpanElement;
@@ -72,6 +149,8 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
   function init(): void {
     setupEventListeners();
     renderVariablesTable();
+    renderHeadersTable();
+    renderCookiesTable();
     vscode.postMessage({ type: 'ready' });
     vscode.postMessage({ type: 'getSavedTestCases' });
   }
@@ -80,6 +159,8 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
     testBtn.addEventListener('click', runTest);
     loadEditorBtn.addEventListener('click', loadFromEditor);
     addVariableBtn.addEventListener('click', addVariable);
+    addHeaderBtn.addEventListener('click', addHeader);
+    addCookieBtn.addEventListener('click', addCookie);
     saveTestBtn.addEventListener('click', saveTest);
     loadTestBtn.addEventListener('click', loadSelectedTest);
     deleteTestBtn.addEventListener('click', deleteSelectedTest);
@@ -110,9 +191,18 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
       case 'loading':
         setLoading(message.payload.isLoading);
         break;
-      case 'editorContent':
+      case 'editorContent': {
+        const filePath = message.payload.filePath;
+        const isServerConfig = filePath.toLowerCase().endsWith('.conf');
         rulesTextarea.value = message.payload.rules;
+        if (filePath) {
+          contextSelect.value = isServerConfig ? 'vhost' : 'directory';
+        }
+        documentRootHint.textContent = filePath && !isServerConfig
+          ? `File tests (-f, -d, -s) use the folder containing ${filePath}`
+          : '';
         break;
+      }
       case 'savedTestCases':
         savedTestCases = message.payload;
         renderSavedTestsDropdown();
@@ -142,7 +232,11 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
       payload: {
         url,
         rules,
-        serverVariables: getServerVariablesMap()
+        serverVariables: getServerVariablesMap(),
+        reinject: reinjectCheckbox.checked,
+        time: timeInput.value || undefined,
+        request: getRequest(),
+        context: contextSelect.value as RuleContext
       }
     });
   }
@@ -156,18 +250,19 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
     renderVariablesTable();
   }
 
-  function removeVariable(index: number): void {
-    serverVariables.splice(index, 1);
-    renderVariablesTable();
+  function addHeader(): void {
+    requestHeaders.push({ key: '', value: '' });
+    renderHeadersTable();
   }
 
-  function updateVariable(index: number, field: 'key' | 'value', value: string): void {
-    serverVariables[index][field] = value;
+  function addCookie(): void {
+    requestCookies.push({ key: '', value: '' });
+    renderCookiesTable();
   }
 
-  function getServerVariablesMap(): Record<string, string> {
+  function toMap(entries: KeyValuePair[]): Record<string, string> {
     const map: Record<string, string> = {};
-    for (const v of serverVariables) {
+    for (const v of entries) {
       if (v.key.trim()) {
         map[v.key.trim()] = v.value;
       }
@@ -175,20 +270,64 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
     return map;
   }
 
+  function fromMap(map: Record<string, string> | undefined): KeyValuePair[] {
+    return Object.entries(map ?? {}).map(([key, value]) => ({ key, value }));
+  }
+
+  function getServerVariablesMap(): Record<string, string> {
+    return toMap(serverVariables);
+  }
+
+  function getRequest(): HttpRequestInput {
+    return {
+      method: methodSelect.value,
+      headers: toMap(requestHeaders),
+      cookies: toMap(requestCookies),
+      remoteAddr: remoteAddrInput.value.trim() || undefined
+    };
+  }
+
+  function setRequest(request: HttpRequestInput | undefined): void {
+    methodSelect.value = request?.method ?? 'GET';
+    remoteAddrInput.value = request?.remoteAddr ?? '';
+    requestHeaders = fromMap(request?.headers);
+    requestCookies = fromMap(request?.cookies);
+    renderHeadersTable();
+    renderCookiesTable();
+  }
+
   function renderVariablesTable(): void {
-    variablesBody.innerHTML = '';
+    renderKeyValueTable(variablesBody, serverVariables, 'No server variables defined', 'Variable name', renderVariablesTable);
+  }
+
+  function renderHeadersTable(): void {
+    renderKeyValueTable(headersBody, requestHeaders, 'No request headers defined', 'Header name', renderHeadersTable);
+  }
+
+  function renderCookiesTable(): void {
+    renderKeyValueTable(cookiesBody, requestCookies, 'No request cookies defined', 'Cookie name', renderCookiesTable);
+  }
 
-    if (serverVariables.length === 0) {
+  function renderKeyValueTable(
+    body: HTMLTableSectionElement,
+    entries: KeyValuePair[],
+    emptyText: string,
+    keyPlaceholder: string,
+    rerender: () => void
+  ): void {
+    body.innerHTML = '';
+
+    if (entries.length === 0) {
       const row = document.createElement('tr');
-      row.innerHTML = '<td colspan="3" style="text-align: center; color: var(--vscode-descriptionForeground);">No server variables defined</td>';
-      variablesBody.appendChild(row);
+      row.innerHTML = `<td colspan="3" style="text-align: center; color: var(--vscode-descriptionForeground);">${escapeHtml(emptyText)}</td>`;
+      body.appendChild(row);
       return;
     }
 
-    serverVariables.forEach((v, index) => {
+    entries.forEach((v, index) => {
       const row = document.createElement('tr');
       row.innerHTML = `
-        <td><input type="text" value="${escapeHtml(v.key)}" placeholder="Variable name" data-index="${index}" data-field="key" /></td>
+        <td><input type="text" value="${escapeHtml(v.key)}" placeholder="${escapeHtml(keyPlaceholder)}" data-index="${index}" data-field="key" /></td>
         <td><input type="text" value="${escapeHtml(v.value)}" placeholder="Value" data-index="${index}" data-field="value" /></td>
         <td><button class="remove-btn" data-index="${index}">Remove</button></td>
       `;
@@ -199,16 +338,17 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
           const target = e.target as HTMLInputElement;
           const idx = parseInt(target.dataset.index!, 10);
           const field = target.dataset.field as 'key' | 'value';
-          updateVariable(idx, field, target.value);
+          entries[idx][field] = target.value;
         });
       });
 
       const removeBtn = row.querySelector('.remove-btn') as HTMLButtonElement;
       removeBtn.addEventListener('click', () => {
-        removeVariable(index);
+        entries.splice(index, 1);
+        rerender();
       });
 
-      variablesBody.appendChild(row);
+      body.appendChild(row);
     });
   }
 
@@ -218,7 +358,11 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
       payload: {
         url: urlInput.value,
         rules: rulesTextarea.value,
-        serverVariables: getServerVariablesMap()
+        serverVariables: getServerVariablesMap(),
+        reinject: reinjectCheckbox.checked,
+        time: timeInput.value || undefined,
+        request: getRequest(),
+        context: contextSelect.value as RuleContext
       }
     });
   }
@@ -231,8 +375,12 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
     if (testCase) {
       urlInput.value = testCase.url;
       rulesTextarea.value = testCase.rules;
-      serverVariables = Object.entries(testCase.serverVariables).map(([key, value]) => ({ key, value }));
+      reinjectCheckbox.checked = testCase.reinject ?? false;
+      contextSelect.value = testCase.context ?? 'directory';
+      timeInput.value = testCase.time ?? '';
+      serverVariables = fromMap(testCase.serverVariables);
       renderVariablesTable();
+      setRequest(testCase.request);
     }
   }
 
@@ -269,17 +417,80 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
     if (!currentResult) return;
 
     resultsSection.style.display = 'block';
+    renderSummary();
     renderTraceTable();
     updateStats();
   }
 
+  function renderSummary(): void {
+    if (!currentResult) return;
+
+    outputUrl.textContent = currentResult.outputUrl;
+    outputStatus.textContent = currentResult.outputStatusCode !== null
+      ? `${currentResult.status} (${currentResult.outputStatusCode})`
+      : currentResult.status;
+
+    const environment = Object.entries(currentResult.environment);
+    outputEnvironment.textContent = environment.map(([name, value]) => `${name}=${value}`).join(', ');
+    outputEnvironmentItem.style.display = environment.length > 0 ? 'flex' : 'none';
+
+    outputCookies.innerHTML = '';
+    currentResult.cookies.forEach(cookie => {
+      const item = document.createElement('li');
+      item.textContent = `Set-Cookie: ${cookie.header}`;
+      outputCookies.appendChild(item);
+    });
+    outputCookiesItem.style.display = currentResult.cookies.length > 0 ? 'block' : 'none';
+
+    outputMessage.textContent = currentResult.message ?? '';
+    if (currentResult.reason) {
+      const hint = document.createElement('div');
+      hint.className = 'summary-hint';
+      hint.textContent = explainReason(currentResult.reason);
+      outputMessage.appendChild(hint);
+    }
+    outputMessage.classList.toggle('visible', currentResult.message !== null);
+  }
+
+  function explainReason(reason: EngineReason): string {
+    switch (reason.code) {
+      case 'invalid-url':
+        return 'Enter a URL that starts with http:// or https:// and has a host name.';
+      case 'url-too-long':
+        return 'Shorten the URL or the rewrite, or raise the htaccessTester.engine.maxUrlLength setting.';
+      case 'too-many-rules':
+        return 'Test a smaller part of the rules, or raise the htaccessTester.engine.maxRuleCount setting.';
+      case 'next-limit':
+        return 'The rule with [N] kept matching. Make sure its rewrite stops it from matching again, or raise its [N=limit].';
+      case 'max-iterations':
+        return 'The rules kept rewriting the URL. Add a condition that stops them, or raise the htaccessTester.engine.maxIterations setting.';
+      case 'rewrite-loop':
+        return 'A rewrite leads back to a URL that was already processed. Use [END], or a RewriteCond that skips the rewritten URL.';
+      default:
+        return '';
+    }
+  }
+
   function renderTraceTable(): void {
     if (!currentResult) return;
 
     const lines = filterLines(currentResult.lines);
+    const showPasses = currentResult.passes.length > 1;
+    let lastPass = 0;
+    let lastFile: string | undefined;
     traceBody.innerHTML = '';
 
     lines.forEach(line => {
+      if (showPasses && line.pass !== lastPass) {
+        lastPass = line.pass;
+        lastFile = undefined;
+        traceBody.appendChild(createPassHeaderRow(line.pass));
+      }
+      if (line.file && line.file !== lastFile) {
+        lastFile = line.file;
+        traceBody.appendChild(createFileHeaderRow(line.file));
+      }
+
       const row = document.createElement('tr');
       const statusIcon = getStatusIcon(line);
       const statusClass = getStatusClass(line);
@@ -295,15 +506,81 @@ type TraceFilter = 'ALL' | 'FAILED_ONLY' | 'REACHED_ONLY' | 'MET_ONLY';
 
       row.innerHTML = `
         <td class="status-icon ${statusClass}">${statusIcon}</td>
-        <td class="line-cell">${escapeHtml(line.line)}${line.message ? ' <span class="line-message">(' + escapeHtml(line.message) + ')</span>' : ''}</td>
+        <td class="line-cell">${escapeHtml(line.line)}${line.message ? ' <span class="line-message">(' + escapeHtml(line.message) + ')</span>' : ''}${line.translatedPattern ? '<div class="line-lookup">JavaScript pattern: ' + escapeHtml(line.translatedPattern) + '</div>' : ''}${line.mapLookups.map(renderMapLookup).join('')}${line.warnings.map(w => '<div class="line-warning status-warning">\u26A0 ' + escapeHtml(w) + '</div>').join('')}${line.details ? '<button class="secondary details-toggle" aria-expanded="false">Details</button>' : ''}</td>
         <td class="${line.isMet ? 'status-met' : 'status-not-met'}">${line.isMet ? 'Yes' : 'No'}</td>
         <td>${line.wasReached ? 'Yes' : 'No'}</td>
       `;
 
       traceBody.appendChild(row);
+
+      if (line.details) {
+        const detailsRow = createDetailsRow(line.details);
+        const toggle = row.querySelector('.details-toggle') as HTMLButtonElement;
+        toggle.addEventListener('click', () => {
+          const expanded = detailsRow.classList.toggle('visible');
+          toggle.setAttribute('aria-expanded', String(expanded));
+        });
+        traceBody.appendChild(detailsRow);
+      }
     });
   }
 
+  function createDetailsRow(details: TraceDetails): HTMLTableRowElement {
+    const entries: [string, string][] = [];
+    if (details.subject !== undefined) {
+      entries.push(['Matched against', details.subject]);
+    }
+    details.captures.forEach((capture, index) => {
+      entries.push([`Capture ${index + 1}`, capture]);
+    });
+    if (details.substitution !== undefined) {
+      entries.push(['Substitution', details.substitution]);
+    }
+    if (details.expandedSubstitution !== undefined) {
+      entries.push(['Expanded to', details.expandedSubstitution]);
+    }
+    if (details.path !== undefined) {
+      entries.push(['Path after rule', details.path]);
+    }
+    if (details.query !== undefined) {
+      entries.push(['Query after rule', details.query]);
+    }
+
+    const row = document.createElement('tr');
+    row.classList.add('trace-details');
+    row.innerHTML = `<td></td><td colspan="3"><dl>${entries.map(([label, value]) =>
+      `<dt>${escapeHtml(label)}</dt><dd>${value === '' ? '<em>(empty)</em>' : escapeHtml(value)}</dd>`
+    ).join('')}</dl></td>`;
+    return row;
+  }
+
+  function renderMapLookup(lookup: MapLookup): string {
+    const result = lookup.value === null ? 'not found, default used' : `\u2192 ${lookup.value}`;
+    return `<div class="line-lookup">\${${escapeHtml(lookup.map)}:${escapeHtml(lookup.key)}} ${escapeHtml(result)}</div>`;
+  }
+
+  function createPassHeaderRow(pass: number): HTMLTableRowElement {
+    const info = currentResult?.passes.find(p => p.pass === pass);
+    let label = `Pass ${pass}`;
+    if (info?.reason === 'reinject') {
+      label += ` (re-injected: ${info.url})`;
+    } else if (info?.reason === 'next') {
+      label += ` (restarted by [N]: ${info.url})`;
+    }
+
+    const row = document.createElement('tr');
+    row.classList.add('pass-header');
+    row.innerHTML = `<td colspan="4">${escapeHtml(label)}</td>`;
+    return row;
+  }
+
+  function createFileHeaderRow(file: string): HTMLTableRowElement {
+    const row = document.createElement('tr');
+    row.classList.add('file-header');
+    row.innerHTML = `<td colspan="4">${escapeHtml(file)}</td>`;
+    return row;
+  }
+
   function filterLines(lines: ResultLine[]): ResultLine[] {
     switch (currentFilter) {
       case 'ALL':